@@ -0,0 +1,271 @@
+/**
+ * Two-step confirmation for destructive operations: the first call returns a preview and a
+ * short-lived token, and only a second call presenting that token executes
+ */
+
+import { randomBytes } from 'crypto';
+import { LocalFileSet, partitionFiles } from './local-files.js';
+
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Arguments that steer the call itself and are not part of the operation
+const CONTROL_ARGUMENTS = new Set(['environment', 'confirm', 'confirmationToken']);
+
+const PREVIEW_MAX_LINES = 20;
+const PREVIEW_MAX_FILES = 5;
+
+export interface OperationPreview {
+  tool: string;
+  environment: string;
+  summary: string;
+  impact: Record<string, unknown>;
+  content?: string;
+}
+
+export interface ConfirmationRequest {
+  status: 'confirmation_required';
+  confirmationToken: string;
+  expiresAt: string;
+  preview: OperationPreview;
+  instructions: string;
+}
+
+interface PendingConfirmation {
+  tool: string;
+  environment: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+function operationArguments(args: Record<string, unknown> | undefined): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args || {}).filter(([key]) => !CONTROL_ARGUMENTS.has(key)));
+}
+
+/**
+ * Stable representation of the operation arguments, so a token only confirms the exact call
+ * it was issued for. Local files are represented by their content digest, so a token does not
+ * confirm files that changed after the preview.
+ */
+function fingerprint(args: Record<string, unknown> | undefined, localFiles?: LocalFileSet): string {
+  const entries = Object.entries(operationArguments(args)).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(localFiles ? [...entries, ['#files', localFiles.digest]] : entries);
+}
+
+function previewLines(text: string): string {
+  const lines = text.split('\n');
+  if (lines.length <= PREVIEW_MAX_LINES) return text;
+  return [
+    ...lines.slice(0, PREVIEW_MAX_LINES),
+    `... (${lines.length - PREVIEW_MAX_LINES} more lines)`,
+  ].join('\n');
+}
+
+/**
+ * Estimate the impact of an ImpEx script from its header and data lines
+ */
+function describeImpex(content: string): Record<string, unknown> {
+  const headerPattern = /^\s*(INSERT_UPDATE|INSERT|UPDATE|REMOVE)\s+([A-Za-z0-9_]+)/i;
+  const blocks: { mode: string; type: string; dataLines: number }[] = [];
+  let current: { mode: string; type: string; dataLines: number } | undefined;
+  let hasBeanShell = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('#%')) {
+      hasBeanShell = true;
+      continue;
+    }
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('$')) continue;
+
+    const header = headerPattern.exec(trimmed);
+    if (header) {
+      current = { mode: header[1].toUpperCase(), type: header[2], dataLines: 0 };
+      blocks.push(current);
+    } else if (current) {
+      current.dataLines++;
+    }
+  }
+
+  const totals: Record<string, number> = {};
+  for (const block of blocks) {
+    totals[block.mode] = (totals[block.mode] || 0) + block.dataLines;
+  }
+
+  return {
+    lineCount: content.split('\n').length,
+    headerBlocks: blocks,
+    dataLinesByMode: totals,
+    removesData: blocks.some((block) => block.mode === 'REMOVE'),
+    containsBeanShell: hasBeanShell,
+  };
+}
+
+/**
+ * Preview the files a local path resolved to: every file with its size, and the content of the
+ * first files that will run
+ */
+function previewLocalFiles(tool: string, environment: string, localFiles: LocalFileSet): OperationPreview {
+  const { scripts, others } = partitionFiles(localFiles, tool === 'import_impex' ? '.impex' : '.groovy');
+  const texts = scripts.map((file) => ({ name: file.relativePath, text: file.data.toString('utf-8') }));
+
+  const impact: Record<string, unknown> = {
+    path: localFiles.path,
+    files: scripts.map((file) => ({ file: file.relativePath, bytes: file.data.length })),
+    note: 'Files are processed in path order, stopping at the first failure',
+  };
+  if (others.length > 0) {
+    impact.media = others.map((file) => ({ file: file.relativePath, bytes: file.data.length }));
+  }
+  if (tool === 'import_impex') {
+    impact.impex = describeImpex(texts.map((file) => file.text).join('\n'));
+  }
+
+  const shown = texts.slice(0, PREVIEW_MAX_FILES).map((file) => `--- ${file.name}\n${previewLines(file.text)}`);
+  if (texts.length > PREVIEW_MAX_FILES) {
+    shown.push(`... (${texts.length - PREVIEW_MAX_FILES} more files)`);
+  }
+
+  return {
+    tool,
+    environment,
+    summary: tool === 'import_impex'
+      ? `Import ${scripts.length} ImpEx file(s) from "${localFiles.path}" into environment "${environment}"`
+      : `Execute ${scripts.length} Groovy script(s) from "${localFiles.path}" with commit=true in environment "${environment}"`,
+    impact,
+    content: shown.join('\n'),
+  };
+}
+
+export function buildPreview(
+  tool: string,
+  environment: string,
+  args: Record<string, unknown> | undefined,
+  localFiles?: LocalFileSet
+): OperationPreview {
+  if (localFiles) {
+    return previewLocalFiles(tool, environment, localFiles);
+  }
+
+  switch (tool) {
+    case 'import_impex': {
+      const content = typeof args?.impexContent === 'string' ? args.impexContent : '';
+      return {
+        tool,
+        environment,
+        summary: `Import ImpEx into environment "${environment}"`,
+        impact: describeImpex(content),
+        content: previewLines(content),
+      };
+    }
+
+    case 'execute_groovy': {
+      const script = typeof args?.script === 'string' ? args.script : '';
+      return {
+        tool,
+        environment,
+        summary: `Execute Groovy script with commit=true in environment "${environment}"`,
+        impact: {
+          lineCount: script.split('\n').length,
+          commit: true,
+          note: 'Database changes made by the script are committed',
+        },
+        content: previewLines(script),
+      };
+    }
+
+    case 'clear_cache': {
+      const cacheType = typeof args?.cacheType === 'string' ? args.cacheType : undefined;
+      return {
+        tool,
+        environment,
+        summary: cacheType
+          ? `Clear cache "${cacheType}" in environment "${environment}"`
+          : `Clear all caches in environment "${environment}"`,
+        impact: {
+          cacheType: cacheType || 'all',
+          note: 'Subsequent requests are served from the database until caches warm up',
+        },
+      };
+    }
+
+    default:
+      return {
+        tool,
+        environment,
+        summary: `Run ${tool} in environment "${environment}"`,
+        impact: { arguments: operationArguments(args) },
+      };
+  }
+}
+
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = CONFIRMATION_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Issue a token for a call and return it together with a preview of the operation.
+   * localFiles are the files read for a path argument.
+   */
+  request(
+    tool: string,
+    environment: string,
+    args: Record<string, unknown> | undefined,
+    localFiles?: LocalFileSet
+  ): ConfirmationRequest {
+    this.prune();
+
+    const token = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { tool, environment, fingerprint: fingerprint(args, localFiles), expiresAt });
+
+    return {
+      status: 'confirmation_required',
+      confirmationToken: token,
+      expiresAt: new Date(expiresAt).toISOString(),
+      preview: buildPreview(tool, environment, args, localFiles),
+      instructions:
+        `Nothing has been executed. Review the preview and call ${tool} again with the same ` +
+        `arguments plus confirmationToken within ${Math.round(this.ttlMs / 1000)} seconds.`,
+    };
+  }
+
+  /**
+   * Redeem a token. Tokens are single-use and only valid for the exact call they were issued for.
+   */
+  consume(
+    token: string,
+    tool: string,
+    environment: string,
+    args: Record<string, unknown> | undefined,
+    localFiles?: LocalFileSet
+  ): void {
+    this.prune();
+
+    const pending = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!pending) {
+      throw new Error('Confirmation token is unknown, already used or expired; call again without it for a new one');
+    }
+    if (pending.tool !== tool || pending.environment !== environment || pending.fingerprint !== fingerprint(args, localFiles)) {
+      throw new Error(
+        'Confirmation token was issued for a different operation' +
+          (localFiles ? ' or the local files changed since the preview' : '') +
+          '; call again without it for a new one'
+      );
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
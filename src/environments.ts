@@ -0,0 +1,200 @@
+/**
+ * Named environment profiles, each backed by its own HybrisClient and HAC session
+ */
+
+import { HybrisClient, HybrisConfig, OccGrantType, OccOAuthConfig } from './hybris-client.js';
+import { PolicyMode, parsePolicyMode } from './policy.js';
+
+export interface EnvironmentProfile {
+  config: HybrisConfig;
+  mode: PolicyMode;
+}
+
+export interface EnvironmentSummary {
+  name: string;
+  isDefault: boolean;
+  baseUrl: string;
+  baseSiteId?: string;
+  catalogId?: string;
+  catalogVersion?: string;
+  contentCatalogId?: string;
+  hacPath?: string;
+  occAuth: string;
+  mode: PolicyMode;
+  health?: { healthy: boolean; details: Record<string, unknown> };
+}
+
+export const DEFAULT_ENVIRONMENT_NAME = 'default';
+
+/**
+ * Build the environment variable prefix for a profile, e.g. "staging" -> "HYBRIS_STAGING_".
+ * The unnamed default profile uses the plain "HYBRIS_" prefix.
+ */
+function envPrefix(name: string | null): string {
+  return name ? `HYBRIS_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_` : 'HYBRIS_';
+}
+
+const OCC_GRANT_TYPES: readonly OccGrantType[] = ['client_credentials', 'password'];
+
+/**
+ * OAuth2 settings for OCC calls. Without a client id OCC calls keep using Basic auth; customer
+ * credentials switch the default grant to password, so calls act as that customer.
+ */
+function readOAuth(own: (key: string) => string | undefined, prefix: string): OccOAuthConfig | undefined {
+  const clientId = own('OAUTH_CLIENT_ID');
+  if (!clientId) return undefined;
+
+  const username = own('OAUTH_USERNAME');
+  const password = own('OAUTH_PASSWORD');
+  const grantType = own('OAUTH_GRANT_TYPE') || (username ? 'password' : 'client_credentials');
+  if (!OCC_GRANT_TYPES.includes(grantType as OccGrantType)) {
+    throw new Error(`${prefix}OAUTH_GRANT_TYPE must be one of: ${OCC_GRANT_TYPES.join(', ')} (got "${grantType}")`);
+  }
+  if (grantType === 'password' && (!username || !password)) {
+    throw new Error(`The password grant requires ${prefix}OAUTH_USERNAME and ${prefix}OAUTH_PASSWORD`);
+  }
+
+  return {
+    clientId,
+    clientSecret: own('OAUTH_CLIENT_SECRET'),
+    grantType: grantType as OccGrantType,
+    username,
+    password,
+    tokenPath: own('OAUTH_TOKEN_PATH'),
+  };
+}
+
+function readProfile(env: NodeJS.ProcessEnv, name: string | null): EnvironmentProfile {
+  const prefix = envPrefix(name);
+  // Catalog and site settings fall back to the unprefixed variables shared by all profiles. The
+  // access mode and OAuth credentials do not, so a global setting never widens access elsewhere.
+  const own = (key: string): string | undefined => env[`${prefix}${key}`];
+  const optional = (key: string): string | undefined => own(key) || env[`HYBRIS_${key}`];
+
+  const baseUrl = env[`${prefix}BASE_URL`];
+  const username = env[`${prefix}USERNAME`];
+  const password = env[`${prefix}PASSWORD`];
+
+  if (!baseUrl || !username || !password) {
+    const label = name ? `environment "${name}"` : 'the default environment';
+    throw new Error(
+      `Missing required environment variables for ${label}:\n` +
+      `  ${prefix}BASE_URL - Base URL of your Hybris instance (e.g., https://localhost:9002)\n` +
+      `  ${prefix}USERNAME - Admin username\n` +
+      `  ${prefix}PASSWORD - Admin password`
+    );
+  }
+
+  return {
+    config: {
+      baseUrl,
+      username,
+      password,
+      baseSiteId: optional('BASE_SITE_ID') || 'electronics',
+      catalogId: optional('CATALOG_ID') || 'electronicsProductCatalog',
+      catalogVersion: optional('CATALOG_VERSION') || 'Online',
+      contentCatalogId: optional('CONTENT_CATALOG_ID') || 'electronicsContentCatalog',
+      contentCatalogVersion: optional('CONTENT_CATALOG_VERSION') || 'Online',
+      hacPath: optional('HAC_PATH') || '/hac',
+      maskPersonalData: optional('MASK_PERSONAL_DATA') === 'true',
+      oauth: readOAuth(own, prefix),
+    },
+    mode: parsePolicyMode(own('MODE'), `${prefix}MODE`),
+  };
+}
+
+export class EnvironmentRegistry {
+  private profiles: Map<string, EnvironmentProfile>;
+  private clients = new Map<string, HybrisClient>();
+  readonly defaultName: string;
+
+  constructor(profiles: Map<string, EnvironmentProfile>, defaultName: string) {
+    if (!profiles.has(defaultName)) {
+      throw new Error(`Default environment "${defaultName}" is not configured`);
+    }
+    this.profiles = profiles;
+    this.defaultName = defaultName;
+  }
+
+  /**
+   * Load profiles from environment variables. HYBRIS_ENVIRONMENTS lists profile names
+   * (e.g. "local,dev,staging") read from HYBRIS_<NAME>_* variables; without it a single
+   * "default" profile is read from the plain HYBRIS_* variables.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): EnvironmentRegistry {
+    const names = (env.HYBRIS_ENVIRONMENTS || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+
+    const profiles = new Map<string, EnvironmentProfile>();
+    if (names.length === 0) {
+      profiles.set(DEFAULT_ENVIRONMENT_NAME, readProfile(env, null));
+      return new EnvironmentRegistry(profiles, DEFAULT_ENVIRONMENT_NAME);
+    }
+
+    for (const name of names) {
+      profiles.set(name, readProfile(env, name));
+    }
+    return new EnvironmentRegistry(profiles, env.HYBRIS_DEFAULT_ENVIRONMENT || names[0]);
+  }
+
+  get names(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  private getProfile(name?: string): EnvironmentProfile {
+    const envName = name || this.defaultName;
+    const profile = this.profiles.get(envName);
+    if (!profile) {
+      throw new Error(`Unknown environment: ${envName} (available: ${this.names.join(', ')})`);
+    }
+    return profile;
+  }
+
+  getConfig(name?: string): HybrisConfig {
+    return this.getProfile(name).config;
+  }
+
+  getMode(name?: string): PolicyMode {
+    return this.getProfile(name).mode;
+  }
+
+  get modes(): PolicyMode[] {
+    return Array.from(this.profiles.values()).map((profile) => profile.mode);
+  }
+
+  getClient(name?: string): HybrisClient {
+    const envName = name || this.defaultName;
+    let client = this.clients.get(envName);
+    if (!client) {
+      client = new HybrisClient(this.getConfig(envName));
+      this.clients.set(envName, client);
+    }
+    return client;
+  }
+
+  async summarize(includeHealth = false): Promise<EnvironmentSummary[]> {
+    return Promise.all(
+      this.names.map(async (name) => {
+        const config = this.getConfig(name);
+        const summary: EnvironmentSummary = {
+          name,
+          isDefault: name === this.defaultName,
+          baseUrl: config.baseUrl,
+          baseSiteId: config.baseSiteId,
+          catalogId: config.catalogId,
+          catalogVersion: config.catalogVersion,
+          contentCatalogId: config.contentCatalogId,
+          hacPath: config.hacPath,
+          occAuth: config.oauth ? `oauth2 (${config.oauth.grantType})` : 'basic',
+          mode: this.getMode(name),
+        };
+        if (includeHealth) {
+          summary.health = await this.getClient(name).healthCheck();
+        }
+        return summary;
+      })
+    );
+  }
+}
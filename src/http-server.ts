@@ -0,0 +1,217 @@
+/**
+ * Streamable HTTP transport, so one server can be shared by a team. Clients authenticate with bearer
+ * tokens that map to roles; each client session gets its own MCP server capped at its role.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { PolicyMode, parsePolicyMode } from './policy.js';
+
+export const MCP_PATH = '/mcp';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+// Inline ImpEx and Groovy content travels in the request body
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface AccessToken {
+  // Only the SHA-256 digest is kept, so tokens are compared in constant time and never logged
+  digest: Buffer;
+  role: PolicyMode;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  tokens: AccessToken[];
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  token: AccessToken;
+  lastSeen: number;
+}
+
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Parse "token=role" pairs separated by commas, where the role is an access mode
+ * (read-only, confirm-writes or full).
+ */
+export function parseAccessTokens(value: string | undefined, source: string): AccessToken[] {
+  const tokens = (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.lastIndexOf('=');
+      if (separator <= 0) {
+        throw new Error(`${source} entries must be token=role (got an entry without a role)`);
+      }
+      return {
+        digest: digest(entry.slice(0, separator)),
+        role: parsePolicyMode(entry.slice(separator + 1).trim(), source),
+      };
+    });
+  if (tokens.length === 0) {
+    throw new Error(`${source} must list at least one token=role pair when the HTTP transport is enabled`);
+  }
+  return tokens;
+}
+
+/**
+ * Read the HTTP transport settings. Returns undefined when the server runs over stdio.
+ */
+export function readHttpOptions(env: NodeJS.ProcessEnv = process.env): HttpServerOptions | undefined {
+  const transport = env.HYBRIS_MCP_TRANSPORT || 'stdio';
+  if (transport === 'stdio') return undefined;
+  if (transport !== 'http') {
+    throw new Error(`HYBRIS_MCP_TRANSPORT must be one of: stdio, http (got "${transport}")`);
+  }
+
+  const port = env.HYBRIS_MCP_PORT ? Number(env.HYBRIS_MCP_PORT) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`HYBRIS_MCP_PORT must be a port number (got "${env.HYBRIS_MCP_PORT}")`);
+  }
+  return {
+    host: env.HYBRIS_MCP_HOST || DEFAULT_HOST,
+    port,
+    tokens: parseAccessTokens(env.HYBRIS_MCP_TOKENS, 'HYBRIS_MCP_TOKENS'),
+  };
+}
+
+function authenticate(req: IncomingMessage, tokens: AccessToken[]): AccessToken | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return undefined;
+  const presented = digest(match[1].trim());
+  return tokens.find((token) => timingSafeEqual(token.digest, presented));
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES / (1024 * 1024)}MB`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+export async function startHttpServer(
+  options: HttpServerOptions,
+  createMcpServer: (role: PolicyMode) => Server
+): Promise<{ close(): Promise<void> }> {
+  const sessions = new Map<string, Session>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== MCP_PATH) {
+      sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    const token = authenticate(req, options.tokens);
+    if (!token) {
+      sendError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendError(res, 400, `Invalid request body: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, 'Unknown or expired session; initialize a new one');
+        return;
+      }
+      // A session stays bound to the token that opened it, so a role cannot be swapped mid-session
+      if (session.token !== token) {
+        sendError(res, 403, 'Session belongs to a different token');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendError(res, 400, 'Missing mcp-session-id header; start with an initialize request');
+      return;
+    }
+
+    const server = createMcpServer(token.role);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, token, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  // Clients that disappear without ending their session are closed after a while
+  const sweeper = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        sessions.delete(id);
+        session.server.close().catch(() => {});
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    async close() {
+      clearInterval(sweeper);
+      await Promise.all(Array.from(sessions.values()).map((session) => session.server.close()));
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
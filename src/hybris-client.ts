@@ -2,6 +2,10 @@
  * Hybris API Client for interacting with SAP Commerce Cloud
  */
 
+import { createHash, randomBytes } from 'crypto';
+import { basename } from 'path';
+import { LocalFileSet, partitionFiles } from './local-files.js';
+
 export interface HybrisConfig {
   baseUrl: string;
   username: string;
@@ -9,7 +13,23 @@ export interface HybrisConfig {
   baseSiteId?: string;
   catalogId?: string;
   catalogVersion?: string;
+  contentCatalogId?: string;
+  contentCatalogVersion?: string;
   hacPath?: string; // HAC path prefix, defaults to '/hac'
+  maskPersonalData?: boolean; // Default for masking customer names, emails and addresses
+  oauth?: OccOAuthConfig; // OCC calls use OAuth2 bearer tokens instead of Basic auth when set
+}
+
+export type OccGrantType = 'client_credentials' | 'password';
+
+export interface OccOAuthConfig {
+  clientId: string;
+  clientSecret?: string;
+  grantType: OccGrantType;
+  // Customer credentials for the password grant; OCC calls then act as this customer
+  username?: string;
+  password?: string;
+  tokenPath?: string; // Defaults to '/authorizationserver/oauth/token'
 }
 
 export interface ProductSearchResult {
@@ -70,23 +90,622 @@ export interface OrderEntry {
   };
 }
 
+export interface FlexibleSearchColumn {
+  name: string;
+  type: string;
+  javaType: string;
+}
+
 export interface FlexibleSearchResult {
+  columns: FlexibleSearchColumn[];
   results: Record<string, unknown>[];
   count: number;
+  totalCount: number | null; // null when the database could not count the rows
+  offset: number;
+  limit: number;
+  executionTime: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export type FlexibleSearchParamType = 'string' | 'number' | 'boolean' | 'date' | 'pk' | 'catalogVersion';
+
+/**
+ * A bind value: plain strings, numbers and booleans bind as-is; typed values bind dates,
+ * item PKs and catalog versions ("catalogId:version").
+ */
+export type FlexibleSearchParam =
+  | string
+  | number
+  | boolean
+  | { type: FlexibleSearchParamType; value: string | number | boolean };
+
+export interface FlexibleSearchOptions {
+  offset?: number;
+  limit?: number;
+  cursor?: string;
+  params?: Record<string, FlexibleSearchParam>;
+  user?: string;
+  language?: string;
+}
+
+export interface ImpexImportOptions {
+  validateOnly?: boolean;
+  enableCodeExecution?: boolean;
+  legacyMode?: boolean;
+  maxThreads?: number;
+  locale?: string;
+  errorsOnly?: boolean;
 }
 
-interface FlexSearchHacResponse {
-  resultList?: unknown[][];
-  headers?: string[];
-  query?: string;
-  executionTime?: number;
-  resultCount?: number;
+export interface ImpexLineReport {
+  lineNumber?: number;
+  kind: 'header' | 'data';
+  status: 'ok' | 'error';
+  header?: string;
+  message?: string;
+  content?: string;
 }
 
 export interface ImpexResult {
   success: boolean;
   message: string;
   errors?: string[];
+  validateOnly?: boolean;
+  summary?: { headers: number; dataLines: number; failedLines: number };
+  lines?: ImpexLineReport[];
+}
+
+export interface CronJobStatus {
+  code: string;
+  pk: string;
+  job: string | null;
+  status: string | null;
+  result: string | null;
+  running: boolean;
+  startTime: string | null;
+  endTime: string | null;
+  durationMs: number | null;
+  logLines: string[];
+}
+
+export interface CronJobWaitOptions {
+  wait?: boolean;
+  timeoutSeconds?: number;
+}
+
+export interface CronJobTriggerResult {
+  success: boolean;
+  message: string;
+  cronJobCode?: string;
+  pk?: string;
+  status?: CronJobStatus;
+  timedOut?: boolean;
+}
+
+export interface CronJobTrigger {
+  pk: string;
+  cronExpression: string | null;
+  active: boolean;
+  nextActivation: string | null;
+  cronJob: string | null;
+  job: string | null;
+}
+
+export interface CronJobSummary {
+  code: string;
+  pk: string;
+  job: string | null;
+  jobType: string | null;
+  active: boolean;
+  status: string | null;
+  result: string | null;
+  nodeId: number | null;
+  nodeGroup: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  triggers: CronJobTrigger[];
+}
+
+export interface CronJobFilter {
+  code?: string;
+  status?: string;
+  result?: string;
+  jobType?: string;
+  nodeId?: number;
+  active?: boolean;
+  limit?: number;
+}
+
+export interface CronJobRun {
+  startTime: string | null;
+  endTime: string | null;
+  status: string | null;
+  result: string | null;
+  nodeId: number | null;
+  user: string | null;
+  failureMessage: string | null;
+  logs: { time: string; level: string | null; message: string | null }[];
+}
+
+export interface CronJobHistory {
+  code: string;
+  pk: string;
+  job: string | null;
+  runs: CronJobRun[];
+  logFiles: { code: string; createdAt: string | null }[];
+}
+
+export interface ImpexFilesResult {
+  success: boolean;
+  files: ({ file: string } & ImpexResult)[];
+  skipped: string[];
+}
+
+export interface GroovyFilesResult {
+  success: boolean;
+  files: { file: string; output: string; result: unknown; error?: string }[];
+  skipped: string[];
+}
+
+export type ProgressCallback = (progress: number, total: number, message: string) => void | Promise<void>;
+
+export interface ImpexAttributeChange {
+  attribute: string;
+  before: string | null;
+  after: string;
+}
+
+export interface ImpexLineChange {
+  lineNumber: number;
+  type: string;
+  mode: string;
+  action: 'create' | 'update' | 'unchanged' | 'remove' | 'none' | 'error';
+  key: Record<string, string>;
+  pk?: string;
+  changes?: ImpexAttributeChange[];
+  notCompared?: string[];
+  message?: string;
+}
+
+export interface ImpexDiff {
+  lines: ImpexLineChange[];
+  totals: Record<string, Record<ImpexLineChange['action'], number>>;
+  warnings: string[];
+}
+
+interface ImpexPathNode {
+  qualifier: string;
+  path: ImpexPathNode[];
+}
+
+interface ImpexColumnPlan {
+  index: number;
+  header: string;
+  qualifier: string;
+  path: ImpexPathNode[];
+  unique: boolean;
+  lang?: string;
+  dateFormat?: string;
+  defaultValue?: string;
+  skip?: string;
+}
+
+interface ImpexBlockPlan {
+  mode: string;
+  type: string;
+  batchMode: boolean;
+  columns: (ImpexColumnPlan | null)[];
+  lines: { lineNumber: number; subtype?: string; values: (string | null)[] }[];
+}
+
+export interface TypeAttribute {
+  qualifier: string;
+  type: string;
+  declaringType: string;
+  optional: boolean;
+  unique: boolean;
+  localized: boolean;
+  partOf: boolean;
+  readable: boolean;
+  writable: boolean;
+  initial: boolean;
+  search: boolean;
+  persistence: 'property' | 'dynamic' | 'relation' | 'jalo';
+  databaseColumn?: string;
+  description?: string;
+}
+
+export interface TypeRelation {
+  relation: string;
+  qualifier: string;
+  cardinality: 'one' | 'many';
+  targetType: string;
+  otherEnd?: {
+    qualifier: string;
+    type: string;
+    cardinality: 'one' | 'many';
+  };
+}
+
+export interface TypeDefinition {
+  code: string;
+  name?: string;
+  description?: string;
+  abstract: boolean;
+  jaloClass?: string;
+  catalogItemType?: boolean;
+  supertypes: string[];
+  subtypes: string[];
+  declaredAttributes: TypeAttribute[];
+  inheritedAttributes: TypeAttribute[];
+  relations: TypeRelation[];
+}
+
+export interface TypeSummary {
+  code: string;
+  kind: string;
+  supertype?: string;
+  abstract: boolean;
+}
+
+export interface SolrFacetSearchConfig {
+  name: string;
+  description?: string;
+  solrServerConfig?: string;
+  indexConfig?: string;
+  catalogVersions: string[];
+  languages: string[];
+  currencies: string[];
+  indexedTypes: {
+    identifier: string;
+    type: string;
+    indexName?: string;
+    properties: string[];
+  }[];
+}
+
+export interface SolrIndexRun {
+  operation: string;
+  cronJobCode: string;
+  status?: string;
+  result?: string;
+  startTime?: string;
+  endTime?: string;
+  durationMs?: number;
+}
+
+export interface SolrIndexStatus {
+  facetSearchConfig: string;
+  lastRuns: SolrIndexRun[];
+}
+
+export interface SolrIndexedProperty {
+  name: string;
+  type?: string;
+  facet: boolean;
+  localized: boolean;
+  currency: boolean;
+  multiValue: boolean;
+  fieldValueProvider?: string;
+  valueProviderParameter?: string;
+  valueProviderParameters?: Record<string, string>;
+  useForSpellchecking: boolean;
+  useForAutocomplete: boolean;
+}
+
+export interface SolrIndexedTypeProperties {
+  identifier: string;
+  type: string;
+  defaultFieldValueProvider?: string;
+  properties: SolrIndexedProperty[];
+}
+
+export interface BusinessProcessSummary {
+  code: string;
+  processDefinitionName: string;
+  state: string;
+  endMessage?: string;
+  creationTime: string;
+  modifiedTime: string;
+}
+
+export interface BusinessProcessDetails {
+  code: string;
+  type: string;
+  processDefinitionName: string;
+  state: string;
+  endMessage?: string;
+  creationTime: string;
+  modifiedTime: string;
+  order?: { code: string; status?: string; user?: string };
+  consignment?: { code: string; status?: string };
+  currentTasks: {
+    action: string;
+    runnerBean?: string;
+    executionDate?: string;
+    retry?: number;
+  }[];
+  taskLogs: {
+    action: string;
+    returnCode?: string;
+    startDate?: string;
+    endDate?: string;
+    logMessages?: string;
+    clusterId?: number;
+  }[];
+  contextParameters: { name: string; value: string }[];
+}
+
+export interface ConfigProperty {
+  key: string;
+  value: string | null;
+  masked: boolean;
+}
+
+export interface ExtensionInfo {
+  name: string;
+  path: string;
+  requires: string[];
+  coreModule: boolean;
+  webRoot?: string;
+}
+
+export interface LogFile {
+  name: string;
+  size: number;
+  lastModified: string;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  level: string | null;
+  lines: string[];
+}
+
+export interface LogSearchOptions {
+  pattern?: string;
+  level?: string;
+  since?: Date;
+  until?: Date;
+  file?: string;
+  maxResults?: number;
+}
+
+export interface LogErrorGroup {
+  exceptionType: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+  message: string;
+  stackTrace: string[];
+}
+
+export interface CmsRestriction {
+  uid: string;
+  type: string;
+  name?: string;
+}
+
+export interface CmsPageSummary {
+  uid: string;
+  name?: string;
+  type: string;
+  template?: string;
+  label?: string;
+  defaultPage?: boolean;
+  approvalStatus?: string;
+  restrictions: CmsRestriction[];
+}
+
+export interface CmsComponentSummary {
+  uid: string;
+  name?: string;
+  type: string;
+  visible: boolean;
+  restrictions: CmsRestriction[];
+  onlyOneRestrictionMustApply?: boolean;
+  children?: string[];
+}
+
+export interface CmsContentSlot {
+  position: string;
+  uid: string;
+  name?: string;
+  active: boolean;
+  activeFrom?: string;
+  activeUntil?: string;
+  fromTemplate: boolean;
+  components: CmsComponentSummary[];
+}
+
+export interface CmsPage extends CmsPageSummary {
+  catalogVersion: string;
+  onlyOneRestrictionMustApply?: boolean;
+  slots: CmsContentSlot[];
+}
+
+export interface CmsPageTemplate {
+  uid: string;
+  name?: string;
+  type: string;
+  active: boolean;
+  frontendTemplateName?: string;
+  restrictedPageTypes: string[];
+  availableSlots: string[];
+}
+
+export interface StockLevelInfo {
+  productCode: string;
+  warehouse: string;
+  available: number;
+  reserved: number;
+  overSelling: number;
+  availableToSell: number;
+  inStockStatus?: string;
+  preOrder?: number;
+  maxPreOrder?: number;
+  releaseDate?: string;
+  nextDeliveryTime?: string;
+}
+
+export interface AvailabilityInfo {
+  pointOfService?: string;
+  stockLevel: number | null;
+  stockLevelStatus?: string;
+}
+
+export interface ProductAvailability {
+  productCode: string;
+  baseStore: string;
+  online: AvailabilityInfo;
+  pointsOfService: AvailabilityInfo[];
+}
+
+export interface PromotionRuleSummary {
+  code: string;
+  name?: string;
+  status?: string;
+  priority?: number;
+  startDate?: string;
+  endDate?: string;
+  website?: string;
+  ruleGroup?: string;
+}
+
+export interface PromotionRuleDetails extends PromotionRuleSummary {
+  description?: string;
+  messageFired?: string;
+  maxAllowedRuns?: number;
+  stackable?: boolean;
+  excludeFromStorefrontDisplay?: boolean;
+  conditions: unknown;
+  actions: unknown;
+}
+
+export interface PriceRowInfo {
+  productCode?: string;
+  price: number;
+  currency?: string;
+  unit?: string;
+  unitFactor?: number;
+  minQuantity?: number;
+  net?: boolean;
+  startTime?: string;
+  endTime?: string;
+  userPriceGroup?: string;
+  user?: string;
+  catalogVersion?: string;
+  channel?: string;
+  giveAwayPrice?: boolean;
+}
+
+export interface PriceGroupInfo {
+  code: string;
+  name?: string;
+  userGroups: string[];
+  priceRowCount: number;
+}
+
+export interface CatalogDifferenceList {
+  count: number;
+  items: string[];
+}
+
+export interface CatalogTypeComparison {
+  type: string;
+  error?: string;
+  uniqueKey?: string[];
+  sourceCount?: number;
+  targetCount?: number;
+  truncated?: boolean;
+  // Set when missing items are not listed because a version has more than maxItems items
+  note?: string;
+  missingInTarget?: CatalogDifferenceList;
+  missingInSource?: CatalogDifferenceList;
+  modifiedAfterTarget?: CatalogDifferenceList;
+  attributeDifferences?: {
+    count: number;
+    items: { key: string; attribute: string; source: unknown; target: unknown }[];
+  };
+}
+
+export interface CatalogVersionComparison {
+  catalogId: string;
+  sourceVersion: string;
+  targetVersion: string;
+  types: CatalogTypeComparison[];
+}
+
+export interface CustomerSummary {
+  uid: string;
+  name?: string;
+  customerId?: string;
+  type?: string;
+  loginDisabled: boolean;
+  creationTime?: string;
+}
+
+export interface CustomerAddress {
+  firstName?: string;
+  lastName?: string;
+  street?: string;
+  streetNumber?: string;
+  postalCode?: string;
+  town?: string;
+  country?: string;
+  phone?: string;
+  email?: string;
+  shippingAddress?: boolean;
+  billingAddress?: boolean;
+  defaultShipment?: boolean;
+  defaultPayment?: boolean;
+}
+
+export interface CustomerDetails extends CustomerSummary {
+  site?: string;
+  lastLogin?: string;
+  sessionLanguage?: string;
+  sessionCurrency?: string;
+  groups: string[];
+  allGroups: string[];
+  addresses: CustomerAddress[];
+  orderCount: number;
+}
+
+export interface UserGroupInfo {
+  uid: string;
+  name?: string;
+  memberCount: number;
+  members: string[];
+  subGroups: string[];
+  superGroups: string[];
+}
+
+export interface OrderDetails {
+  code: string;
+  user: string | null;
+  status: string | null;
+  date: string | null;
+  site: string | null;
+  store: string | null;
+  currency: string | null;
+  totalPrice: number | null;
+  subtotal: number | null;
+  deliveryCost: number | null;
+  totalTax: number | null;
+  paymentStatus: string | null;
+  deliveryStatus: string | null;
+  deliveryMode: string | null;
+  entries: { entryNumber: number; product: string | null; quantity: number; basePrice: number | null; totalPrice: number | null }[];
+  consignments: { code: string; status: string | null; warehouse: string | null }[];
+  processes: { code: string; processDefinition: string | null; state: string | null }[];
+}
+
+export interface ItemDetails {
+  pk: string;
+  type: string;
+  attributes: Record<string, unknown>;
 }
 
 interface HacSession {
@@ -94,18 +713,109 @@ interface HacSession {
   csrfToken: string;
 }
 
+interface OccToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
 export class HybrisClient {
   private static readonly REQUEST_TIMEOUT_MS = 30000;
+  // OCC tokens are renewed this long before they expire
+  private static readonly OCC_TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+  // Imports and scripts run from files may take far longer than a regular request
+  private static readonly LONG_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+  // Larger ImpEx content is uploaded instead of being embedded in the script;
+  // Groovy string constants are limited to 64KB
+  static readonly INLINE_CONTENT_LIMIT = 32 * 1024;
+  private static readonly UPLOAD_CHUNK_BYTES = 36 * 1024;
+  // Staging requests stay well below the 2MB form size servlet containers accept by default
+  private static readonly UPLOAD_REQUEST_BYTES = 1024 * 1024;
+  private static readonly CRONJOB_POLL_INTERVAL_MS = 5000;
+  private static readonly CRONJOB_WAIT_DEFAULT_SECONDS = 300;
+  private static readonly LOG_SCAN_BYTES = 20 * 1024 * 1024;
+  private static readonly LOG_LINE_MAX_LENGTH = 2000;
+
+  // Groovy closure rendering attribute values; referenced items are shown by uid, code or PK
+  private static readonly ITEM_VALUE_RENDERER = `
+def renderValue
+renderValue = { value ->
+    if (value == null) return null
+    if (value instanceof de.hybris.platform.core.model.ItemModel) {
+        return value.hasProperty("uid") ? value.uid : (value.hasProperty("code") ? value.code : value.pk.toString())
+    }
+    if (value instanceof Collection) return value.collect { renderValue(it) }
+    if (value instanceof Map) return value.collectEntries { k, v -> [(String.valueOf(k)): renderValue(v)] }
+    if (value instanceof Number || value instanceof Boolean || value instanceof Date) return value
+    if (value instanceof Enum || value.hasProperty("code")) return value.code ?: value.toString()
+    return value.toString()
+}
+`;
+
+  // Property keys (or key segments) whose values are secrets, e.g. "x.secret.value", "api.key",
+  // "oauth.client.token" or "ldap.credentials"
+  private static readonly SECRET_KEY_PATTERN =
+    /password|passwd|passphrase|secret|token|credential|authorization|salt|(^|[._-])(api|access|private|secret)?[._-]?key($|[._-])/i;
+  // "key=value" and "key: value" pairs in free text whose key names a secret
+  private static readonly SECRET_ASSIGNMENT_PATTERN =
+    /([\w.-]*(?:password|passwd|passphrase|secret|token|credential|authorization|api[._-]?key|private[._-]?key)[\w.-]*)(\s*[=:]\s*)(?:"[^"]*"|'[^']*'|[^"'\s,;]+)/gi;
+
+  // Attributes holding personal data, masked by getItem when masking is on (lowercase qualifiers).
+  // UIDs and names only identify a person on users and addresses.
+  private static readonly PERSONAL_ATTRIBUTES = new Set([
+    'customerid', 'originaluid', 'user', 'email', 'contactemail', 'firstname', 'middlename', 'lastname',
+    'phone1', 'phone2', 'cellphone', 'fax', 'streetname', 'streetnumber', 'pobox', 'postalcode', 'town',
+    'birthdate',
+  ]);
+  private static readonly PERSONAL_ITEM_ATTRIBUTES = new Set(['uid', 'name', 'displayname']);
+
+  // Groovy helpers shared by the log tools. Files are restricted to the platform log directory.
+  private static readonly LOG_FILE_HELPERS = `
+def logDir = new File(Config.getParameter("HYBRIS_LOG_DIR") ?: "log").canonicalFile
+
+def logFiles = { ->
+    def files = []
+    if (logDir.isDirectory()) {
+        logDir.eachFileRecurse(groovy.io.FileType.FILES) { f ->
+            if (f.name.endsWith(".log") || f.name.endsWith(".txt")) files << f
+        }
+    }
+    files
+}
+
+def resolveLogFile = { name ->
+    if (!name) {
+        return logFiles().max { it.lastModified() }
+    }
+    def file = new File(logDir, name).canonicalFile
+    if (!file.path.startsWith(logDir.path + File.separator) || !file.isFile()) {
+        return null
+    }
+    file
+}
+
+def relativeName = { f -> logDir.toPath().relativize(f.toPath()).toString() }
+`;
 
   private config: HybrisConfig;
   private hacSession: HacSession | null = null;
+  // Login in progress, shared by concurrent requests so only one HAC session is established
+  private hacLogin: Promise<HacSession> | null = null;
+  private occToken: OccToken | null = null;
+  // Token request in progress, shared by concurrent OCC calls
+  private occTokenRequest: Promise<OccToken> | null = null;
+  // A token that got a 401 right after it was issued is valid, so its later 401s deny permissions
+  private occTokenDenied: OccToken | null = null;
 
   constructor(config: HybrisConfig) {
     this.config = {
       baseSiteId: 'electronics',
       catalogId: 'electronicsProductCatalog',
       catalogVersion: 'Online',
+      contentCatalogId: 'electronicsContentCatalog',
+      contentCatalogVersion: 'Online',
       hacPath: '/hac',
+      maskPersonalData: false,
       ...config,
     };
   }
@@ -114,17 +824,21 @@ export class HybrisClient {
     return this.config.hacPath || '/hac';
   }
 
-  private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
+  private async fetchWithTimeout(
+    url: string,
+    options: RequestInit = {},
+    timeoutMs = HybrisClient.REQUEST_TIMEOUT_MS
+  ): Promise<Response> {
     const controller = new AbortController();
     const timeout = setTimeout(
       () => controller.abort(),
-      HybrisClient.REQUEST_TIMEOUT_MS
+      timeoutMs
     );
     try {
       return await fetch(url, { ...options, signal: controller.signal });
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${HybrisClient.REQUEST_TIMEOUT_MS}ms: ${url}`);
+        throw new Error(`Request timeout after ${timeoutMs}ms: ${url}`);
       }
       throw error;
     } finally {
@@ -155,15 +869,30 @@ export class HybrisClient {
       .replace(/\t/g, '\\t');   // Tabs
   }
 
+  /**
+   * Mask credentials and tokens embedded in free text.
+   */
+  private maskSecrets(text: string): string {
+    // Credentials after an authorization scheme first, so "Authorization: Basic ..." is fully masked
+    return text
+      .replace(/bearer\s+[^\s]+/gi, 'bearer ***')
+      .replace(/basic\s+[A-Za-z0-9+/=]{8,}/gi, 'basic ***')
+      .replace(HybrisClient.SECRET_ASSIGNMENT_PATTERN, '$1$2***');
+  }
+
+  /**
+   * Mask a property value if its key names a secret, or its value contains one.
+   */
+  private maskPropertyValue(key: string, value: string): string {
+    if (HybrisClient.SECRET_KEY_PATTERN.test(key)) return '***';
+    return this.maskSecrets(value) === value ? value : '***';
+  }
+
   /**
    * Sanitize error messages to prevent leaking sensitive information.
    */
   private sanitizeErrorMessage(message: string, maxLength = 500): string {
-    let sanitized = message
-      .replace(/password[=:]["']?[^"'\s]+["']?/gi, 'password=***')
-      .replace(/token[=:]["']?[^"'\s]+["']?/gi, 'token=***')
-      .replace(/bearer\s+[^\s]+/gi, 'bearer ***')
-      .replace(/authorization[=:]["']?[^"'\s]+["']?/gi, 'authorization=***');
+    let sanitized = this.maskSecrets(message);
 
     if (sanitized.length > maxLength) {
       sanitized = sanitized.substring(0, maxLength) + '... (truncated)';
@@ -172,53 +901,284 @@ export class HybrisClient {
   }
 
   /**
-   * Type guard for FlexibleSearch HAC response.
+   * Masking configured for the environment cannot be turned off per call; a call can only ask
+   * for masking where the environment does not mask by default.
+   */
+  private shouldMaskPersonalData(requested?: boolean): boolean {
+    return this.config.maskPersonalData === true || requested === true;
+  }
+
+  /**
+   * Mask a personal value, keeping the first character (and the domain of emails).
+   */
+  private maskPersonalValue<T extends string | null | undefined>(value: T): T {
+    if (!value) return value;
+    const atIdx = value.indexOf('@');
+    if (atIdx > 0) {
+      return `${value[0]}***${value.substring(atIdx)}` as T;
+    }
+    return `${value[0]}***` as T;
+  }
+
+  /**
+   * Convert a wildcard pattern (e.g. `*Product*`) into a FlexibleSearch LIKE pattern.
+   * Patterns without wildcards are matched as substrings. Literal % and _ are escaped with !,
+   * so queries must use LIKE ... ESCAPE '!'.
+   */
+  private toLikePattern(pattern: string): string {
+    const escaped = pattern.replace(/[!%_]/g, '!$&');
+    if (!/[*?]/.test(pattern)) {
+      return `%${escaped}%`;
+    }
+    return escaped.replace(/\*/g, '%').replace(/\?/g, '_');
+  }
+
+  /**
+   * Map FlexibleSearch rows to objects keyed by the given names, matched to the result columns in order.
+   */
+  private mapFlexSearchRows<K extends string>(
+    result: FlexibleSearchResult,
+    columns: readonly K[]
+  ): Record<K, string | null>[] {
+    return result.results.map((row) => {
+      const mapped = {} as Record<K, string | null>;
+      columns.forEach((column, idx) => {
+        const header = result.columns[idx];
+        const value = header ? row[header.name] : undefined;
+        mapped[column] = value === undefined || value === null || value === '' ? null : String(value);
+      });
+      return mapped;
+    });
+  }
+
+  /**
+   * Continuation cursors carry the next offset and page size, bound to the query (including its
+   * parameters, user and language) they were issued for.
+   */
+  private queryFingerprint(query: string): string {
+    return createHash('sha256').update(query).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Validate bind parameters and resolve their types for the Groovy side.
    */
-  private isFlexSearchResponse(data: unknown): data is FlexSearchHacResponse {
-    return typeof data === 'object' && data !== null;
+  private normalizeQueryParams(
+    params: Record<string, FlexibleSearchParam>
+  ): { name: string; type: FlexibleSearchParamType; value: string | number | boolean }[] {
+    const types: readonly FlexibleSearchParamType[] = ['string', 'number', 'boolean', 'date', 'pk', 'catalogVersion'];
+
+    return Object.entries(params).map(([name, param]) => {
+      if (!/^[A-Za-z_]\w*$/.test(name)) {
+        throw new Error(`Invalid parameter name: ${name}`);
+      }
+      if (param === null || param === undefined) {
+        throw new Error(`Parameter ${name} has no value`);
+      }
+
+      const typed = typeof param === 'object'
+        ? param
+        : { type: typeof param as FlexibleSearchParamType, value: param };
+      if (!types.includes(typed.type)) {
+        throw new Error(`Parameter ${name} has unsupported type: ${typed.type} (expected one of: ${types.join(', ')})`);
+      }
+
+      const value = typed.value;
+      switch (typed.type) {
+        case 'number':
+          if (typeof value !== 'number' && !(typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))) {
+            throw new Error(`Parameter ${name} must be a number`);
+          }
+          return { name, type: typed.type, value: Number(value) };
+        case 'boolean':
+          if (typeof value !== 'boolean' && value !== 'true' && value !== 'false') {
+            throw new Error(`Parameter ${name} must be a boolean`);
+          }
+          return { name, type: typed.type, value: value === true || value === 'true' };
+        case 'date': {
+          const date = new Date(String(value));
+          if (isNaN(date.getTime())) {
+            throw new Error(`Parameter ${name} must be an ISO-8601 date/time`);
+          }
+          return { name, type: typed.type, value: date.toISOString() };
+        }
+        case 'pk':
+          if (!/^\d+$/.test(String(value))) {
+            throw new Error(`Parameter ${name} must be a numeric PK`);
+          }
+          return { name, type: typed.type, value: String(value) };
+        case 'catalogVersion':
+          if (!/^[^:]+:[^:]+$/.test(String(value))) {
+            throw new Error(`Parameter ${name} must be a catalog version as "catalogId:version"`);
+          }
+          return { name, type: typed.type, value: String(value) };
+        default:
+          return { name, type: typed.type, value: String(value) };
+      }
+    });
+  }
+
+  private encodeCursor(query: string, offset: number, limit: number): string {
+    return Buffer.from(JSON.stringify({ q: this.queryFingerprint(query), o: offset, l: limit })).toString('base64url');
+  }
+
+  private decodeCursor(query: string, cursor: string): { offset: number; limit: number } {
+    let decoded: { q?: unknown; o?: unknown; l?: unknown };
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+    if (!Number.isInteger(decoded.o) || !Number.isInteger(decoded.l) || (decoded.o as number) < 0 || (decoded.l as number) < 1) {
+      throw new Error('Invalid cursor');
+    }
+    if (decoded.q !== this.queryFingerprint(query)) {
+      throw new Error('Cursor was issued for a different query');
+    }
+    return { offset: decoded.o as number, limit: decoded.l as number };
   }
 
   private async getAuthHeaders(): Promise<Record<string, string>> {
-    const auth = Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
+    const authorization = this.config.oauth
+      ? `Bearer ${(await this.ensureOccToken()).accessToken}`
+      : `Basic ${Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64')}`;
     return {
-      'Authorization': `Basic ${auth}`,
+      'Authorization': authorization,
       'Content-Type': 'application/json',
       'Accept': 'application/json',
     };
   }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const headers = await this.getAuthHeaders();
-    const url = `${this.config.baseUrl}${endpoint}`;
-
-    const response = await this.fetchWithTimeout(url, {
-      ...options,
-      headers: {
-        ...headers,
-        ...(options.headers as Record<string, string>),
-      },
-    });
+  // OCC OAuth2 Token Management
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Hybris API error (${response.status}): ${this.sanitizeErrorMessage(errorText)}`);
+  private async ensureOccToken(): Promise<OccToken> {
+    if (this.occToken && this.occToken.expiresAt - HybrisClient.OCC_TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return this.occToken;
+    }
+    if (!this.occTokenRequest) {
+      this.occTokenRequest = this.obtainOccToken().finally(() => {
+        this.occTokenRequest = null;
+      });
     }
+    return this.occTokenRequest;
+  }
 
-    const contentType = response.headers.get('content-type');
-    if (contentType?.includes('application/json')) {
-      return response.json() as Promise<T>;
+  /**
+   * Refresh the expiring token when a refresh token was issued (password grant), otherwise request a new one
+   */
+  private async obtainOccToken(): Promise<OccToken> {
+    const oauth = this.config.oauth!;
+    const refreshToken = this.occToken?.refreshToken;
+    this.occToken = null;
+
+    if (refreshToken) {
+      try {
+        this.occToken = await this.requestOccToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+        return this.occToken;
+      } catch {
+        // Refresh tokens expire too; fall back to the configured grant
+      }
     }
 
-    const text = await response.text();
-    if (contentType?.includes('text/html') && text.includes('<html')) {
-      throw new Error(
-        `Unexpected HTML response (possible auth failure): ${text.substring(0, 200)}...`
-      );
+    const grant: Record<string, string> = { grant_type: oauth.grantType };
+    if (oauth.grantType === 'password') {
+      grant.username = oauth.username || '';
+      grant.password = oauth.password || '';
     }
-    return text as unknown as T;
+    this.occToken = await this.requestOccToken(grant);
+    return this.occToken;
+  }
+
+  private async requestOccToken(grant: Record<string, string>): Promise<OccToken> {
+    const oauth = this.config.oauth!;
+    const body = new URLSearchParams({ ...grant, client_id: oauth.clientId });
+    if (oauth.clientSecret) {
+      body.set('client_secret', oauth.clientSecret);
+    }
+
+    const response = await this.fetchWithTimeout(
+      `${this.config.baseUrl}${oauth.tokenPath || '/authorizationserver/oauth/token'}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+        },
+        body,
+      }
+    );
+
+    const text = await response.text();
+    let payload: { access_token?: string; refresh_token?: string; expires_in?: number; error?: string; error_description?: string } = {};
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      // Reported below with the raw response
+    }
+    if (!response.ok || !payload.access_token) {
+      const reason = payload.error_description || payload.error || text;
+      throw new Error(
+        `OAuth token request failed (${response.status}, ${grant.grant_type} grant): ${this.sanitizeErrorMessage(reason)}`
+      );
+    }
+
+    return {
+      accessToken: payload.access_token,
+      refreshToken: payload.refresh_token,
+      // Tokens without expires_in are kept until the server rejects them
+      expiresAt: payload.expires_in !== undefined ? Date.now() + payload.expires_in * 1000 : Number.MAX_SAFE_INTEGER,
+    };
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    retryCount = 0
+  ): Promise<T> {
+    const headers = await this.getAuthHeaders();
+    const token = this.occToken;
+    const url = `${this.config.baseUrl}${endpoint}`;
+
+    const response = await this.fetchWithTimeout(url, {
+      ...options,
+      headers: {
+        ...headers,
+        ...(options.headers as Record<string, string>),
+      },
+    });
+
+    if (response.status === 401 && token) {
+      // A rejected bearer token was revoked or expired early - renew it (keeping the refresh token)
+      // and retry once. Tokens known to be valid are only renewed when the server says they are invalid.
+      const invalidToken = /invalid_token/i.test(response.headers.get('www-authenticate') || '');
+      if (retryCount < 1 && (token !== this.occTokenDenied || invalidToken)) {
+        await response.body?.cancel();
+        if (this.occToken === token) {
+          this.occToken = { ...token, expiresAt: 0 };
+        }
+        return this.request<T>(endpoint, options, retryCount + 1);
+      }
+      if (retryCount >= 1 && !invalidToken) {
+        this.occTokenDenied = token;
+      }
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Hybris API error (${response.status}): ${this.sanitizeErrorMessage(errorText)}`);
+    }
+
+    const contentType = response.headers.get('content-type');
+    if (contentType?.includes('application/json')) {
+      return response.json() as Promise<T>;
+    }
+
+    const text = await response.text();
+    if (contentType?.includes('text/html') && text.includes('<html')) {
+      throw new Error(
+        `Unexpected HTML response (possible auth failure): ${text.substring(0, 200)}...`
+      );
+    }
+    return text as unknown as T;
   }
 
   // HAC Session Management
@@ -257,7 +1217,15 @@ export class HybrisClient {
     if (this.hacSession) {
       return this.hacSession;
     }
+    if (!this.hacLogin) {
+      this.hacLogin = this.loginToHac().finally(() => {
+        this.hacLogin = null;
+      });
+    }
+    return this.hacLogin;
+  }
 
+  private async loginToHac(): Promise<HacSession> {
     // Step 1: Get the login page to obtain initial CSRF token and cookies
     // First request to / may redirect to /login.jsp
     let loginPageUrl = `${this.config.baseUrl}${this.hacPrefix}/`;
@@ -346,30 +1314,31 @@ export class HybrisClient {
 
   private async hacRequest<T>(
     endpoint: string,
-    options: RequestInit = {},
+    options: RequestInit & { timeoutMs?: number; acceptHtml?: boolean } = {},
     retryCount = 0
   ): Promise<T> {
+    const { timeoutMs, acceptHtml, ...init } = options;
     const session = await this.ensureHacSession();
     const url = `${this.config.baseUrl}${endpoint}`;
 
     const headers: Record<string, string> = {
       'Cookie': session.cookies.join('; '),
       'X-CSRF-TOKEN': session.csrfToken,
-      ...(options.headers as Record<string, string>),
+      ...(init.headers as Record<string, string>),
     };
 
     // Add CSRF token to form data if it's a POST with form data
-    let body = options.body;
-    if (options.method === 'POST' && body instanceof URLSearchParams) {
+    let body = init.body;
+    if (init.method === 'POST' && (body instanceof URLSearchParams || body instanceof FormData)) {
       body.set('_csrf', session.csrfToken);
     }
 
     const response = await this.fetchWithTimeout(url, {
-      ...options,
+      ...init,
       headers,
       body,
       redirect: 'manual',
-    });
+    }, timeoutMs);
 
     // If we get a redirect to login, session expired - retry once
     const location = response.headers.get('location');
@@ -392,7 +1361,7 @@ export class HybrisClient {
     }
 
     const text = await response.text();
-    if (contentType?.includes('text/html') && text.includes('<html')) {
+    if (!acceptHtml && contentType?.includes('text/html') && text.includes('<html')) {
       throw new Error(
         `Unexpected HTML response (possible auth failure): ${text.substring(0, 200)}...`
       );
@@ -421,9 +1390,12 @@ export class HybrisClient {
     );
   }
 
-  async getCategories(): Promise<Category[]> {
+  async getCategories(
+    catalogId = this.config.catalogId!,
+    catalogVersion = this.config.catalogVersion!
+  ): Promise<Category[]> {
     const result = await this.request<{ subcategories: Category[] }>(
-      `/rest/v2/${encodeURIComponent(this.config.baseSiteId!)}/catalogs/${encodeURIComponent(this.config.catalogId!)}/${encodeURIComponent(this.config.catalogVersion!)}/categories`
+      `/rest/v2/${encodeURIComponent(this.config.baseSiteId!)}/catalogs/${encodeURIComponent(catalogId)}/${encodeURIComponent(catalogVersion)}/categories`
     );
     return result.subcategories || [];
   }
@@ -448,25 +1420,228 @@ export class HybrisClient {
 
   // HAC (Hybris Administration Console) Methods
 
-  async executeFlexibleSearch(query: string, maxCount = 100): Promise<FlexibleSearchResult> {
-    const formData = new URLSearchParams({
-      flexibleSearchQuery: query,
-      maxCount: maxCount.toString(),
-    });
+  /**
+   * Run a FlexibleSearch query and return rows keyed by column name, with column types and the total count.
+   * Pages are selected with offset/limit or with the cursor returned by the previous page. Parameters are
+   * bound as ?name values; user and language set the session context the query runs in.
+   */
+  async executeFlexibleSearch(query: string, options: FlexibleSearchOptions = {}): Promise<FlexibleSearchResult> {
+    const params = this.normalizeQueryParams(options.params || {});
+    if (options.user !== undefined && !options.user.trim()) {
+      throw new Error('user must not be empty');
+    }
+    if (options.language !== undefined && !/^[A-Za-z]{2,3}([_-][A-Za-z0-9]+)*$/.test(options.language)) {
+      throw new Error(`Invalid language isocode: ${options.language}`);
+    }
 
-    return this.hacRequest<FlexibleSearchResult>(
-      `${this.hacPrefix}/console/flexsearch/execute`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: formData,
-      }
-    );
+    // Cursors are bound to everything that determines the result set
+    const cursorKey = JSON.stringify([query, params, options.user ?? null, options.language ?? null]);
+    const { offset, limit } = options.cursor
+      ? this.decodeCursor(cursorKey, options.cursor)
+      : { offset: options.offset ?? 0, limit: options.limit ?? 100 };
+    // Both are written into the SQL and into cursors, which only accept integers
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error('offset must be a non-negative integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('limit must be a positive integer');
+    }
+    const escapedQuery = this.escapeGroovyString(query);
+    const escapedParams = this.escapeGroovyString(JSON.stringify(params));
+    const escapedUser = options.user ? this.escapeGroovyString(options.user) : '';
+    const escapedLanguage = options.language ? this.escapeGroovyString(options.language) : '';
+
+    // The query is translated to SQL and run over JDBC so that column metadata is available.
+    // The database returns only the requested page where its paging syntax is known (other
+    // databases stop reading after the page), and the total comes from a separate COUNT(*)
+    // without the ORDER BY; it is null when the database cannot count the query.
+    // Translation happens in a local session view so the chosen user's restrictions and
+    // language apply.
+    const script = `
+import de.hybris.platform.core.PK
+import de.hybris.platform.core.Registry
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import de.hybris.platform.servicelayer.session.SessionExecutionBody
+import groovy.json.JsonOutput
+import groovy.json.JsonSlurper
+import java.time.Instant
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def sessionService = spring.getBean("sessionService")
+def userService = spring.getBean("userService")
+def commonI18NService = spring.getBean("commonI18NService")
+def catalogVersionService = spring.getBean("catalogVersionService")
+def modelService = spring.getBean("modelService")
+
+def toJdbc = { value ->
+    if (value instanceof PK) return value.longValue
+    if (value instanceof de.hybris.platform.core.model.ItemModel) return value.pk?.longValue
+    if (value instanceof de.hybris.platform.jalo.Item) return value.PK.longValue
+    if (value instanceof java.util.Date) return new java.sql.Timestamp(value.time)
+    return value
+}
+def toJson = { value ->
+    if (value == null || value instanceof Number || value instanceof Boolean) return value
+    if (value instanceof java.util.Date) return value.toInstant().toString()
+    return value.toString()
+}
+def bindValue = { param ->
+    switch (param.type) {
+        case "date":
+            return Date.from(Instant.parse(param.value))
+        case "pk":
+            return modelService.get(PK.parse(param.value))
+        case "catalogVersion":
+            def parts = param.value.split(":", 2)
+            return catalogVersionService.getCatalogVersion(parts[0], parts[1])
+        default:
+            return param.value
+    }
+}
+
+def runQuery = {
+    def queryParams = [:]
+    new JsonSlurper().parseText("${escapedParams}").each { param ->
+        queryParams[param.name] = bindValue(param)
+    }
+    if ("${escapedLanguage}") {
+        commonI18NService.setCurrentLanguage(commonI18NService.getLanguage("${escapedLanguage}"))
+    }
+
+    def translation = flexibleSearchService.translate(new FlexibleSearchQuery("${escapedQuery}", queryParams))
+    def sql = translation.SQLQuery
+    def started = System.nanoTime()
+    def connection = Registry.currentTenant.dataSource.connection
+    def prepare = { text ->
+        def statement = connection.prepareStatement(text)
+        translation.SQLQueryParameters.eachWithIndex { param, idx -> statement.setObject(idx + 1, toJdbc(param)) }
+        return statement
+    }
+    // Start of a trailing top-level ORDER BY clause, or -1
+    def trailingOrderBy = { text ->
+        def start = text.toLowerCase().lastIndexOf("order by")
+        if (start < 0) return -1
+        def depth = 0
+        for (ch in text.substring(start).toCharArray()) {
+            if (ch == '(' as char) depth++
+            if (ch == ')' as char && --depth < 0) return -1
+        }
+        return depth == 0 ? start : -1
+    }
+    try {
+        def product = connection.metaData.databaseProductName.toLowerCase()
+        def pageSql = null
+        if (product.contains("oracle")) {
+            pageSql = sql + " OFFSET ${offset} ROWS FETCH NEXT ${limit} ROWS ONLY"
+        } else if (product.contains("microsoft sql server")) {
+            // SQL Server only pages ordered queries
+            def ordered = trailingOrderBy(sql) >= 0 ? sql : sql + " ORDER BY (SELECT NULL)"
+            pageSql = ordered + " OFFSET ${offset} ROWS FETCH NEXT ${limit} ROWS ONLY"
+        } else if (["mysql", "hsql", "hdb", "postgres"].any { product.contains(it) }) {
+            pageSql = sql + " LIMIT ${limit} OFFSET ${offset}"
+        }
+        def statement = prepare(pageSql ?: sql)
+        if (pageSql == null) statement.maxRows = ${offset + limit}
+        def rs = statement.executeQuery()
+
+        def meta = rs.metaData
+        def columns = []
+        def seen = [:]
+        (1..meta.columnCount).each { i ->
+            def name = meta.getColumnLabel(i)
+            seen[name] = (seen[name] ?: 0) + 1
+            columns << [
+                name: seen[name] > 1 ? name + "_" + seen[name] : name,
+                type: meta.getColumnTypeName(i),
+                javaType: meta.getColumnClassName(i)
+            ]
+        }
+
+        def rows = []
+        def position = 0
+        while (rs.next()) {
+            if (pageSql != null || position++ >= ${offset}) {
+                def row = [:]
+                columns.eachWithIndex { column, i -> row[column.name] = toJson(rs.getObject(i + 1)) }
+                rows << row
+            }
+        }
+        rs.close()
+        statement.close()
+
+        // A short page that is not past the end is the last one, so its total is known without counting.
+        // The order does not change the count, and some databases reject ORDER BY in a derived table.
+        def total = ${offset} + rows.size()
+        if (rows.size() == ${limit} || (rows.isEmpty() && ${offset} > 0)) {
+            def orderBy = trailingOrderBy(sql)
+            def unordered = orderBy >= 0 ? sql.substring(0, orderBy) : sql
+            try {
+                def countStatement = prepare("SELECT COUNT(*) FROM (" + unordered + ") counted")
+                def countRs = countStatement.executeQuery()
+                countRs.next()
+                total = countRs.getLong(1)
+                countRs.close()
+                countStatement.close()
+            } catch (java.sql.SQLException e) {
+                // Unknown rather than counted by reading every row
+                total = null
+            }
+        }
+
+        return JsonOutput.toJson([
+            columns: columns,
+            results: rows,
+            totalCount: total,
+            executionTime: (System.nanoTime() - started).intdiv(1000000)
+        ])
+    } finally {
+        connection.close()
+    }
+}
+
+try {
+    def body = new SessionExecutionBody() {
+        Object execute() {
+            return runQuery()
+        }
+    }
+    if ("${escapedUser}") {
+        return sessionService.executeInLocalView(body, userService.getUserForUID("${escapedUser}"))
+    }
+    return sessionService.executeInLocalView(body)
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "FlexibleSearch failed: " + e.message])
+}
+`;
+
+    const data = await this.executeGroovyJson<{
+      columns: FlexibleSearchColumn[];
+      results: Record<string, unknown>[];
+      totalCount: number | null;
+      executionTime: number;
+    }>(script);
+
+    const nextOffset = offset + data.results.length;
+    // Without a total, a full page may be followed by more rows
+    const hasMore = data.totalCount === null ? data.results.length === limit : nextOffset < data.totalCount;
+    return {
+      columns: data.columns,
+      results: data.results,
+      count: data.results.length,
+      totalCount: data.totalCount,
+      offset,
+      limit,
+      executionTime: data.executionTime,
+      hasMore,
+      nextCursor: hasMore ? this.encodeCursor(cursorKey, nextOffset, limit) : undefined,
+    };
   }
 
-  async executeGroovyScript(script: string, commit = false): Promise<{ output: string; result: unknown }> {
+  async executeGroovyScript(
+    script: string,
+    commit = false,
+    timeoutMs?: number
+  ): Promise<{ output: string; result: unknown; stacktrace?: string }> {
     const formData = new URLSearchParams({
       script,
       scriptType: 'groovy',
@@ -485,6 +1660,7 @@ export class HybrisClient {
           'Content-Type': 'application/x-www-form-urlencoded',
         },
         body: formData,
+        timeoutMs,
       }
     );
 
@@ -492,339 +1668,3302 @@ export class HybrisClient {
     return {
       output: response.outputText || '',
       result: response.executionResult,
+      stacktrace: response.stacktraceText || undefined,
     };
   }
 
-  async importImpex(impexContent: string): Promise<ImpexResult> {
-    // Use Groovy script for ImpEx import with ImportService
-    const escapedContent = this.escapeGroovyString(impexContent);
-
-    const script = `
-import de.hybris.platform.servicelayer.impex.ImportService
-import de.hybris.platform.servicelayer.impex.ImportConfig
-import de.hybris.platform.servicelayer.impex.impl.StreamBasedImpExResource
+  /**
+   * Execute a Groovy script that returns a JSON string and parse it.
+   * Scripts report failures by returning a JSON object with an `error` field.
+   */
+  private async executeGroovyJson<T>(script: string, commit = false, timeoutMs?: number): Promise<T> {
+    const result = await this.executeGroovyScript(script, commit, timeoutMs);
+    const jsonStr = String(result.result || '');
+    if (!jsonStr.startsWith('{') && !jsonStr.startsWith('[')) {
+      throw new Error(
+        `Unexpected script result: ${this.sanitizeErrorMessage(result.output || jsonStr || 'empty result')}`
+      );
+    }
 
-try {
-    def impexContent = "${escapedContent}"
-    def importService = spring.getBean("importService")
+    let parsed;
+    try {
+      parsed = JSON.parse(jsonStr);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid JSON in script result (${reason}): ${this.sanitizeErrorMessage(jsonStr, 200)}`);
+    }
+    if (parsed && !Array.isArray(parsed) && typeof parsed.error === 'string') {
+      throw new Error(this.sanitizeErrorMessage(parsed.error));
+    }
+    return parsed as T;
+  }
 
-    def config = new ImportConfig()
-    def resource = new StreamBasedImpExResource(
-        new ByteArrayInputStream(impexContent.getBytes("UTF-8")),
-        "UTF-8"
-    )
-    config.setScript(resource)
-    config.setEnableCodeExecution(true)
+  /**
+   * Import ImpEx content. In validation mode the import runs single-threaded inside a transaction
+   * that is rolled back, so headers and references are resolved but nothing is persisted.
+   * Content too large to embed in a script is uploaded through the HAC ImpEx upload form, or
+   * staged on the server when it is only validated.
+   */
+  async importImpex(
+    impexContent: string,
+    options: ImpexImportOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<ImpexResult> {
+    if (Buffer.byteLength(impexContent, 'utf-8') <= HybrisClient.INLINE_CONTENT_LIMIT) {
+      return this.runImpexImport(impexContent, null, options);
+    }
+    if (this.canUploadImpex(options)) {
+      await onProgress?.(0, 1, 'Uploading import.impex to HAC, importing');
+      return this.uploadImpex('import.impex', impexContent, options);
+    }
 
-    def importResult = importService.importData(config)
+    const stagingId = randomBytes(8).toString('hex');
+    try {
+      const staged = await this.stageFile(stagingId, 'import.impex', Buffer.from(impexContent, 'utf-8'), onProgress);
+      return await this.runImpexImport(impexContent, staged.path, options);
+    } finally {
+      await this.cleanupStaging(stagingId);
+    }
+  }
 
-    if (importResult.hasUnresolvedLines()) {
-        println "WARNING: Import completed with unresolved lines"
-        importResult.unresolvedLines.allLines.each { line ->
-            println "  Unresolved: " + line
-        }
+  /**
+   * Import ImpEx from a local file, or from every .impex file of a local directory in path order.
+   * Other files in the directory are staged as media and exposed to the ImpEx as $mediaDir.
+   * The import stops at the first file that fails.
+   */
+  async importImpexFiles(
+    fileSet: LocalFileSet,
+    options: ImpexImportOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<ImpexFilesResult> {
+    const { scripts: impexFiles, others: mediaFiles } = partitionFiles(fileSet, '.impex');
+    if (impexFiles.length === 0) {
+      throw new Error(`No .impex files found in ${fileSet.path}`);
     }
 
-    if (importResult.isError()) {
-        println "ERROR: Import failed"
-        if (importResult.unresolvedLines?.allLines) {
-            importResult.unresolvedLines.allLines.each { line ->
-                println "  Error: " + line
-            }
+    const upload = this.canUploadImpex(options);
+    const total = mediaFiles.length + impexFiles.length * (upload ? 1 : 2);
+    let step = 0;
+    const stagingId = randomBytes(8).toString('hex');
+    const results: ImpexFilesResult['files'] = [];
+
+    try {
+      let mediaDir: string | undefined;
+      for (const media of mediaFiles) {
+        const staged = await this.stageFile(stagingId, `media/${media.relativePath}`, media.data);
+        mediaDir = `${staged.root}/media`;
+        await onProgress?.(++step, total, `Uploaded media ${media.relativePath}`);
+      }
+
+      for (const impex of impexFiles) {
+        const content = impex.data.toString('utf-8');
+        // Files defining $mediaDir themselves keep their own value
+        const uploaded = mediaDir && !/^\s*\$mediaDir\s*=/m.test(content)
+          ? `$mediaDir=${mediaDir}\n${content}`
+          : content;
+
+        let result: ImpexResult;
+        if (upload) {
+          result = await this.uploadImpex(basename(impex.relativePath), uploaded, options);
+        } else {
+          const staged = await this.stageFile(stagingId, `impex/${impex.relativePath}`, Buffer.from(uploaded, 'utf-8'));
+          await onProgress?.(++step, total, `Uploaded ${impex.relativePath}, validating`);
+          result = await this.runImpexImport(content, staged.path, options);
         }
-        return "ERROR"
+        results.push({ file: impex.relativePath, ...result });
+        await onProgress?.(++step, total, `${impex.relativePath}: ${result.message}`);
+        if (!result.success) break;
+      }
+    } finally {
+      if (mediaFiles.length > 0 || !upload) {
+        await this.cleanupStaging(stagingId);
+      }
     }
 
-    println "SUCCESS: ImpEx import completed"
-    return "SUCCESS"
-} catch (Exception e) {
-    println "ERROR: " + e.getMessage()
-    e.printStackTrace()
-    return "ERROR: " + e.getMessage()
-}
-`;
-    const result = await this.executeGroovyScript(script, true); // commit=true for imports
-    const output = result.output || '';
-    const execResult = String(result.result || '');
-    const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
-    const errors: string[] = [];
+    const skipped = impexFiles.slice(results.length).map((file) => file.relativePath);
+    return {
+      success: results.every((result) => result.success) && skipped.length === 0,
+      files: results,
+      skipped,
+    };
+  }
 
-    // Extract unresolved lines as errors
-    const unresolvedMatch = output.match(/Unresolved: (.+)/g);
-    if (unresolvedMatch) {
-      errors.push(...unresolvedMatch);
+  /**
+   * Run a Groovy script from a local file, or every .groovy file of a local directory in path order.
+   * Scripts are sent as-is, not embedded; execution stops at the first script that throws.
+   */
+  async executeGroovyFiles(
+    fileSet: LocalFileSet,
+    commit = false,
+    onProgress?: ProgressCallback
+  ): Promise<GroovyFilesResult> {
+    const { scripts } = partitionFiles(fileSet, '.groovy');
+    if (scripts.length === 0) {
+      throw new Error(`No .groovy files found in ${fileSet.path}`);
     }
 
-    const errorMatch = output.match(/ERROR: (.+)/);
-    if (errorMatch) {
-      errors.push(errorMatch[1]);
+    const results: GroovyFilesResult['files'] = [];
+    for (const script of scripts) {
+      await onProgress?.(results.length, scripts.length, `Running ${script.relativePath}`);
+      const result = await this.executeGroovyScript(
+        script.data.toString('utf-8'),
+        commit,
+        HybrisClient.LONG_REQUEST_TIMEOUT_MS
+      );
+      results.push({
+        file: script.relativePath,
+        output: result.output,
+        result: result.result,
+        error: result.stacktrace ? this.sanitizeErrorMessage(result.stacktrace.split('\n')[0]) : undefined,
+      });
+      if (result.stacktrace) break;
     }
+    await onProgress?.(results.length, scripts.length, 'Finished');
 
+    const skipped = scripts.slice(results.length).map((file) => file.relativePath);
     return {
-      success,
-      message: output || execResult,
-      errors: errors.length > 0 ? errors : undefined,
+      success: results.every((result) => !result.error) && skipped.length === 0,
+      files: results,
+      skipped,
     };
   }
 
-  async exportImpex(flexQuery: string): Promise<string> {
-    // Use Groovy script for ImpEx export
-    const escapedQuery = this.escapeGroovyString(flexQuery);
-
-    const script = `
-try {
-    def flexibleSearchService = spring.getBean("flexibleSearchService")
-    def query = "${escapedQuery}"
-    def searchResult = flexibleSearchService.search(query)
+  /**
+   * The HAC upload form has no locale setting and always commits, so validation and imports
+   * with a locale run through a script instead
+   */
+  private canUploadImpex(options: ImpexImportOptions): boolean {
+    return !options.validateOnly && !options.locale;
+  }
 
-    if (searchResult.result.isEmpty()) {
-        println "No results found for query"
-        return "# No results found"
+  /**
+   * Import ImpEx through the HAC ImpEx upload form, which streams the file to the importer
+   * without embedding it in a script. The result is read from the rendered import page.
+   */
+  private async uploadImpex(fileName: string, impexContent: string, options: ImpexImportOptions): Promise<ImpexResult> {
+    if (options.maxThreads !== undefined && (!Number.isInteger(options.maxThreads) || options.maxThreads < 1)) {
+      throw new Error('maxThreads must be a positive integer');
     }
 
-    // Build ImpEx header from first item
-    def firstItem = searchResult.result[0]
-    def itemType = firstItem.itemtype  // Use lowercase 'itemtype' property
+    const form = new FormData();
+    form.set('file', new Blob([impexContent], { type: 'text/plain' }), fileName);
+    form.set('encoding', 'UTF-8');
+    form.set('maxThreads', String(options.maxThreads ?? 1));
+    form.set('validationEnum', 'IMPORT_STRICT');
+    form.set('legacyMode', String(options.legacyMode ?? false));
+    form.set('_legacyMode', 'on');
+    form.set('enableCodeExecution', String(options.enableCodeExecution ?? false));
+    form.set('_enableCodeExecution', 'on');
 
-    def sb = new StringBuilder()
-    sb.append("# Exported from FlexibleSearch: ").append(query).append("\\n")
-    sb.append("# Result count: ").append(searchResult.totalCount).append("\\n\\n")
+    const html = await this.hacRequest<string>(`${this.hacPrefix}/console/impex/import/upload`, {
+      method: 'POST',
+      body: form,
+      timeoutMs: HybrisClient.LONG_REQUEST_TIMEOUT_MS,
+      acceptHtml: true,
+    });
 
-    // Simple export format
-    sb.append("INSERT_UPDATE ").append(itemType).append(";pk[unique=true]\\n")
-    searchResult.result.each { item ->
-        sb.append(";").append(item.PK.toString()).append("\\n")
+    const resultTag = /<[^>]*id=["']impexResult["'][^>]*>/i.exec(html)?.[0];
+    if (!resultTag) {
+      throw new Error('Unexpected response from the HAC ImpEx upload: no import result found');
     }
+    const attribute = (name: string) =>
+      this.decodeHtml(new RegExp(`data-${name}=["']([^"']*)["']`, 'i').exec(resultTag)?.[1] || '');
+    const level = attribute('level');
+    const message = attribute('result');
+    // Failed imports render the unresolved lines below the result
+    const details = this.decodeHtml(/<pre[^>]*>([\s\S]*?)<\/pre>/i.exec(html.slice(html.indexOf(resultTag)))?.[1] || '');
 
-    println "SUCCESS: Exported " + searchResult.result.size() + " items"
-    return sb.toString()
-} catch (Exception e) {
-    println "ERROR: " + e.getMessage()
-    e.printStackTrace()
-    return "# Error: " + e.getMessage()
-}
-`;
-    const result = await this.executeGroovyScript(script);
-    const execResult = String(result.result || '');
-
-    // If result looks like ImpEx content, return it
-    if (execResult.includes('INSERT_UPDATE') || execResult.includes('# ')) {
-      return execResult;
-    }
+    const lines = this.buildImpexReport(impexContent, details);
+    const failedLines = lines.filter((line) => line.status === 'error');
+    const success = level !== 'error' && failedLines.length === 0;
+    const summary = {
+      headers: lines.filter((line) => line.kind === 'header').length,
+      dataLines: lines.filter((line) => line.kind === 'data').length,
+      failedLines: failedLines.length,
+    };
+    const errors = [
+      ...(success ? [] : [this.sanitizeErrorMessage(message || 'Import failed')]),
+      ...failedLines.map((line) => (line.lineNumber ? `Line ${line.lineNumber}: ${line.message}` : line.message || '')),
+    ];
 
-    return result.output || execResult || '# Export failed';
+    return {
+      success,
+      message: `${success ? 'ImpEx import completed' : 'ImpEx import failed'} (${summary.headers} headers, ` +
+        `${summary.dataLines} data lines, ${summary.failedLines} failed)`,
+      errors: errors.length > 0 ? errors : undefined,
+      validateOnly: false,
+      summary,
+      lines: options.errorsOnly ? failedLines : lines,
+    };
   }
 
-  // Backoffice / Admin API Methods
-
-  async getCronJobs(): Promise<{ cronJobs: { code: string; active: boolean; status: string }[] }> {
-    // Use FlexibleSearch to get cron jobs as HAC doesn't have a direct API
-    const result = await this.executeFlexibleSearch(
-      "SELECT {code}, {active}, {status} FROM {CronJob} ORDER BY {code}",
-      1000
-    );
+  private decodeHtml(text: string): string {
+    return text
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&quot;/g, '"')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
 
-    // FlexibleSearch returns resultList as array of arrays, with headers
-    if (!this.isFlexSearchResponse(result)) {
-      return { cronJobs: [] };
-    }
-    const resultList = result.resultList || [];
-    const headers = result.headers || ['code', 'active', 'status'];
+  /**
+   * Upload a file to a per-operation staging directory on the server. The file is sent as base64
+   * chunks small enough to embed in a script, batched so each request carries up to
+   * UPLOAD_REQUEST_BYTES. Returns the server-side file and staging root paths.
+   */
+  private async stageFile(
+    stagingId: string,
+    relativePath: string,
+    data: Buffer,
+    onProgress?: ProgressCallback
+  ): Promise<{ path: string; root: string }> {
+    const escapedPath = this.escapeGroovyString(relativePath);
+    let staged = { path: '', root: '' };
 
-    const codeIdx = headers.findIndex(h => h.toLowerCase().includes('code'));
-    const activeIdx = headers.findIndex(h => h.toLowerCase().includes('active'));
-    const statusIdx = headers.findIndex(h => h.toLowerCase().includes('status'));
+    let offset = 0;
+    do {
+      const end = Math.min(offset + HybrisClient.UPLOAD_REQUEST_BYTES, data.length);
+      const chunks: string[] = [];
+      for (let start = offset; start < end; start += HybrisClient.UPLOAD_CHUNK_BYTES) {
+        chunks.push(`"${data.subarray(start, Math.min(start + HybrisClient.UPLOAD_CHUNK_BYTES, end)).toString('base64')}"`);
+      }
+      const script = `
+import groovy.json.JsonOutput
 
-    return {
-      cronJobs: resultList.map((row) => ({
-        code: String(row[codeIdx >= 0 ? codeIdx : 0] || ''),
-        active: row[activeIdx >= 0 ? activeIdx : 1] === true || row[activeIdx >= 0 ? activeIdx : 1] === 'true',
-        status: String(row[statusIdx >= 0 ? statusIdx : 2] || ''),
-      })),
-    };
+def root = new File(System.getProperty("java.io.tmpdir"), "hybris-mcp-${stagingId}").canonicalFile
+def file = new File(root, "${escapedPath}").canonicalFile
+if (!file.path.startsWith(root.path + File.separator)) {
+    return JsonOutput.toJson([error: "Invalid staging path: ${escapedPath}"])
+}
+file.parentFile.mkdirs()
+if (${offset} == 0) file.delete()
+if (file.length() != ${offset}) {
+    return JsonOutput.toJson([error: "Upload of ${escapedPath} out of sequence at byte ${offset}"])
+}
+[${chunks.join(', ')}].each { file.append(Base64.decoder.decode(it)) }
+return JsonOutput.toJson([path: file.path, root: root.path])
+`;
+      staged = await this.executeGroovyJson<{ path: string; root: string }>(script);
+      offset = end;
+      await onProgress?.(offset, data.length, `Uploaded ${offset} of ${data.length} bytes of ${relativePath}`);
+    } while (offset < data.length);
+    return staged;
   }
 
-  async triggerCronJob(cronJobCode: string): Promise<{ success: boolean; message: string }> {
-    // Use Groovy script to trigger cron job
-    const escapedCode = this.escapeGroovyString(cronJobCode);
+  private async cleanupStaging(stagingId: string): Promise<void> {
     const script = `
-import de.hybris.platform.servicelayer.cronjob.CronJobService
-
-def cronJobService = spring.getBean("cronJobService")
-def cronJob = cronJobService.getCronJob("${escapedCode}")
-if (cronJob == null) {
-    println "CronJob not found: ${escapedCode}"
-    return "NOT_FOUND"
-}
-cronJobService.performCronJob(cronJob, true)
-println "CronJob triggered: ${escapedCode}"
-return "SUCCESS"
+def root = new File(System.getProperty("java.io.tmpdir"), "hybris-mcp-${stagingId}")
+return root.exists() ? root.deleteDir() : true
 `;
-    const result = await this.executeGroovyScript(script);
-    const output = result.output || '';
-    const execResult = String(result.result || '');
-    const success = output.includes('triggered') || execResult === 'SUCCESS';
-    return {
-      success,
-      message: success
-        ? `CronJob ${cronJobCode} triggered`
-        : `Failed to trigger ${cronJobCode}: ${output || execResult || 'Unknown error'}`,
-    };
+    // Best effort: a failed cleanup only leaves files in the server's temp directory
+    await this.executeGroovyScript(script).catch(() => undefined);
+  }
+
+  /**
+   * Run an import from inline content or a staged server file. The content is always passed
+   * so the per-line report can be built locally.
+   */
+  private async runImpexImport(
+    impexContent: string,
+    stagedPath: string | null,
+    options: ImpexImportOptions
+  ): Promise<ImpexResult> {
+    const validateOnly = options.validateOnly ?? false;
+    if (options.maxThreads !== undefined && (!Number.isInteger(options.maxThreads) || options.maxThreads < 1)) {
+      throw new Error('maxThreads must be a positive integer');
+    }
+    if (options.locale !== undefined && !/^[A-Za-z]{2,3}([_-][A-Za-z0-9]+)*$/.test(options.locale)) {
+      throw new Error(`Invalid locale: ${options.locale}`);
+    }
+
+    const source = stagedPath
+      ? `new FileInputStream("${this.escapeGroovyString(stagedPath)}")`
+      : `new ByteArrayInputStream("${this.escapeGroovyString(impexContent)}".getBytes("UTF-8"))`;
+    const legacyMode = options.legacyMode === undefined ? 'null' : String(options.legacyMode);
+    // Worker threads commit on their own, so validation always runs on a single thread
+    const maxThreads = validateOnly ? 1 : options.maxThreads ?? 0;
+    const escapedLocale = options.locale ? this.escapeGroovyString(options.locale.replace('_', '-')) : '';
+
+    const script = `
+import de.hybris.platform.servicelayer.impex.ImportConfig
+import de.hybris.platform.servicelayer.impex.impl.StreamBasedImpExResource
+import de.hybris.platform.tx.Transaction
+import groovy.json.JsonOutput
+
+def importService = spring.getBean("importService")
+def mediaService = spring.getBean("mediaService")
+def validateOnly = ${validateOnly}
+
+def config = new ImportConfig()
+config.setScript(new StreamBasedImpExResource(${source}, "UTF-8"))
+config.setSynchronous(true)
+config.setEnableCodeExecution(${options.enableCodeExecution ?? false})
+if (${legacyMode} != null) config.setLegacyMode(${legacyMode})
+if (${maxThreads} > 0) config.setMaxThreads(${maxThreads})
+if ("${escapedLocale}") config.setLocale(Locale.forLanguageTag("${escapedLocale}"))
+if (validateOnly && config.metaClass.respondsTo(config, "setDistributedImpexEnabled")) {
+    config.setDistributedImpexEnabled(false)
+}
+
+def tx = validateOnly ? Transaction.current() : null
+tx?.begin()
+try {
+    def importResult = importService.importData(config)
+    def unresolved = importResult.hasUnresolvedLines()
+        ? new String(mediaService.getDataFromMedia(importResult.unresolvedLines), "UTF-8")
+        : ""
+    return JsonOutput.toJson([successful: importResult.successful, unresolved: unresolved])
+} catch (Exception e) {
+    return JsonOutput.toJson([successful: false, unresolved: "", failure: e.message ?: e.class.name])
+} finally {
+    tx?.rollback()
+}
+`;
+    // commit=true for imports; validation never commits
+    const data = await this.executeGroovyJson<{ successful: boolean; unresolved: string; failure?: string }>(
+      script,
+      !validateOnly,
+      HybrisClient.LONG_REQUEST_TIMEOUT_MS
+    );
+
+    const lines = this.buildImpexReport(impexContent, data.unresolved);
+    const failedLines = lines.filter((line) => line.status === 'error');
+    const success = data.successful && !data.failure && failedLines.length === 0;
+    const summary = {
+      headers: lines.filter((line) => line.kind === 'header').length,
+      dataLines: lines.filter((line) => line.kind === 'data').length,
+      failedLines: failedLines.length,
+    };
+
+    const outcome = validateOnly
+      ? success ? 'Validation passed' : 'Validation failed'
+      : success ? 'ImpEx import completed' : 'ImpEx import failed';
+    const details = data.failure
+      ? `: ${this.sanitizeErrorMessage(data.failure)}`
+      : ` (${summary.headers} headers, ${summary.dataLines} data lines, ${summary.failedLines} failed)`;
+
+    const errors = [
+      ...(data.failure ? [this.sanitizeErrorMessage(data.failure)] : []),
+      ...failedLines.map((line) => (line.lineNumber ? `Line ${line.lineNumber}: ${line.message}` : line.message || '')),
+    ];
+
+    return {
+      success,
+      message: outcome + details + (validateOnly ? '; nothing was persisted' : ''),
+      errors: errors.length > 0 ? errors : undefined,
+      validateOnly,
+      summary,
+      lines: options.errorsOnly ? failedLines : lines,
+    };
+  }
+
+  /**
+   * Build a per-line report by matching the unresolved lines dumped by the importer back to the
+   * submitted content. Dumped data lines carry the error in their first cell (",pk,,,message").
+   */
+  private buildImpexReport(content: string, unresolved: string): ImpexLineReport[] {
+    const headerPattern = /^\s*(INSERT_UPDATE|INSERT|UPDATE|REMOVE)\s+([A-Za-z0-9_]+)/i;
+    const afterFirstCell = (line: string) => line.substring(line.indexOf(';') + 1).trim();
+
+    const report: ImpexLineReport[] = [];
+    let header: string | undefined;
+    content.split('\n').forEach((raw, idx) => {
+      const line = raw.trim();
+      if (!line || line.startsWith('#') || line.startsWith('$')) return;
+      const match = headerPattern.exec(line);
+      if (match) {
+        header = `${match[1].toUpperCase()} ${match[2]}`;
+        report.push({ lineNumber: idx + 1, kind: 'header', status: 'ok', header });
+      } else if (header) {
+        report.push({ lineNumber: idx + 1, kind: 'data', status: 'ok', header, content: line });
+      }
+    });
+
+    let dumpHeader: string | undefined;
+    for (const raw of unresolved.split('\n')) {
+      const line = raw.trim();
+      if (!line || line.startsWith('#') || line.startsWith('$')) continue;
+      const match = headerPattern.exec(line);
+      if (match) {
+        dumpHeader = `${match[1].toUpperCase()} ${match[2]}`;
+        continue;
+      }
+
+      const infoCell = line.includes(';') ? line.substring(0, line.indexOf(';')) : line;
+      const message = infoCell.split(',').slice(4).join(',').trim() || 'Line could not be resolved';
+      const values = afterFirstCell(line);
+      const original = report.find(
+        (entry) => entry.kind === 'data' && entry.status === 'ok' && entry.header === dumpHeader &&
+          afterFirstCell(entry.content || '') === values
+      );
+
+      if (original) {
+        original.status = 'error';
+        original.message = message;
+      } else {
+        // Lines changed by macros or multi-line values cannot be mapped back to a line number
+        report.push({ kind: 'data', status: 'error', header: dumpHeader, message, content: values });
+      }
+    }
+
+    // Content is only kept where it helps locate a failure
+    return report.map((entry) => (entry.status === 'ok' ? { ...entry, content: undefined } : entry));
+  }
+
+  /**
+   * Split an ImpEx line into fields, honouring double-quoted values with "" escapes.
+   */
+  private splitImpexFields(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (quoted) {
+        if (ch === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (ch === '"') {
+          quoted = false;
+        } else {
+          current += ch;
+        }
+      } else if (ch === '"' && current.trim() === '') {
+        current = '';
+        quoted = true;
+      } else if (ch === ';') {
+        fields.push(current);
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    fields.push(current);
+    return fields;
+  }
+
+  /**
+   * Parse an attribute path such as "catalog(id),version" into a tree of qualifiers.
+   */
+  private parseImpexPath(path: string): ImpexPathNode[] {
+    const nodes: ImpexPathNode[] = [];
+    let depth = 0;
+    let start = 0;
+    const pushNode = (part: string) => {
+      const trimmed = part.trim();
+      if (!trimmed) return;
+      // Modifiers on path elements (e.g. version[default=Staged]) do not affect rendering
+      const qualifier = /^[A-Za-z_]\w*/.exec(trimmed)?.[0] || trimmed;
+      const open = trimmed.indexOf('(');
+      nodes.push({
+        qualifier,
+        path: open < 0 ? [] : this.parseImpexPath(trimmed.substring(open + 1, trimmed.lastIndexOf(')'))),
+      });
+    };
+    for (let i = 0; i < path.length; i++) {
+      if (path[i] === '(') depth++;
+      else if (path[i] === ')') depth--;
+      else if (path[i] === ',' && depth === 0) {
+        pushNode(path.substring(start, i));
+        start = i + 1;
+      }
+    }
+    pushNode(path.substring(start));
+    return nodes;
+  }
+
+  private parseImpexColumn(text: string, index: number): ImpexColumnPlan | null {
+    const header = text.trim();
+    if (!header) return null;
+
+    const column: ImpexColumnPlan = { index, header, qualifier: header, path: [], unique: false };
+    if (header.startsWith('@')) {
+      column.skip = 'special attribute';
+      return column;
+    }
+
+    const qualifier = /^[A-Za-z_]\w*/.exec(header);
+    if (!qualifier) {
+      column.skip = 'unrecognized column';
+      return column;
+    }
+    column.qualifier = qualifier[0];
+
+    let rest = header.substring(qualifier[0].length);
+    if (rest.startsWith('(')) {
+      let depth = 0;
+      let end = 0;
+      for (; end < rest.length; end++) {
+        if (rest[end] === '(') depth++;
+        else if (rest[end] === ')' && --depth === 0) break;
+      }
+      column.path = this.parseImpexPath(rest.substring(1, end));
+      rest = rest.substring(end + 1);
+    }
+
+    for (const group of rest.match(/\[[^\]]*\]/g) || []) {
+      for (const modifier of group.slice(1, -1).split(/,(?=(?:[^']*'[^']*')*[^']*$)/)) {
+        const eq = modifier.indexOf('=');
+        if (eq < 0) continue;
+        const key = modifier.substring(0, eq).trim();
+        const value = modifier.substring(eq + 1).trim().replace(/^'(.*)'$/, '$1');
+        if (key === 'unique') column.unique = value === 'true';
+        else if (key === 'lang') column.lang = value;
+        else if (key === 'dateformat') column.dateFormat = value;
+        else if (key === 'default') column.defaultValue = value;
+        else if (key === 'translator' || key === 'cellDecorator') column.skip = `custom ${key}`;
+        else if (key === 'mode') column.skip = `collection mode ${value}`;
+      }
+    }
+    return column;
+  }
+
+  /**
+   * Turn ImpEx content into header blocks with parsed columns and value lines. Macros are
+   * expanded; code lines (#%) are not evaluated.
+   */
+  private parseImpexForDiff(content: string): { blocks: ImpexBlockPlan[]; warnings: string[] } {
+    const headerPattern = /^(INSERT_UPDATE|INSERT|UPDATE|REMOVE)\s+([A-Za-z0-9_]+)(\[[^\]]*\])?/i;
+    const macros: [string, string][] = [];
+    const expand = (line: string) =>
+      macros.reduce((text, [name, value]) => text.split(name).join(value), line);
+
+    const blocks: ImpexBlockPlan[] = [];
+    const warnings: string[] = [];
+    const physical = content.split(/\r?\n/);
+    let current: ImpexBlockPlan | undefined;
+
+    for (let i = 0; i < physical.length; i++) {
+      const lineNumber = i + 1;
+      let line = physical[i];
+
+      // Join continuation lines and quoted values spanning lines
+      while (i + 1 < physical.length && (line.endsWith('\\') || (line.split('"').length - 1) % 2 === 1)) {
+        line = (line.endsWith('\\') ? line.slice(0, -1) : line + '\n') + physical[++i];
+      }
+
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      if (trimmed.startsWith('#%')) {
+        warnings.push(`Line ${lineNumber}: code lines are not evaluated in the preview`);
+        continue;
+      }
+      if (trimmed.startsWith('#')) continue;
+      if (trimmed.startsWith('$')) {
+        const eq = trimmed.indexOf('=');
+        if (eq > 0) {
+          macros.push([trimmed.substring(0, eq).trim(), expand(trimmed.substring(eq + 1).trim())]);
+          macros.sort((a, b) => b[0].length - a[0].length);
+        }
+        continue;
+      }
+
+      const fields = this.splitImpexFields(expand(trimmed));
+      const header = headerPattern.exec(fields[0].trim());
+      if (header) {
+        current = {
+          mode: header[1].toUpperCase(),
+          type: header[2],
+          batchMode: /batchmode\s*=\s*true/i.test(header[3] || ''),
+          columns: fields.slice(1).map((text, idx) => this.parseImpexColumn(text, idx)),
+          lines: [],
+        };
+        blocks.push(current);
+        continue;
+      }
+
+      if (!current) {
+        warnings.push(`Line ${lineNumber}: value line before any header is ignored`);
+        continue;
+      }
+
+      const columns = current.columns;
+      current.lines.push({
+        lineNumber,
+        subtype: fields[0].trim() || undefined,
+        values: fields.slice(1).map((value, idx) => {
+          const column = columns[idx];
+          if (!column || value.trim() === '<ignore>') return null;
+          const text = value.trim();
+          return text === '' ? column.defaultValue ?? null : text;
+        }),
+      });
+    }
+
+    return { blocks, warnings };
+  }
+
+  /**
+   * Preview what ImpEx content would change: for each value line, whether it would create, update
+   * (with before/after values per attribute) or remove an item. Nothing is imported; existing items
+   * are looked up by the header's unique columns and compared as ImpEx-formatted strings.
+   * A plan too large to embed in the script is staged on the server.
+   */
+  async previewImpexChanges(impexContent: string): Promise<ImpexDiff> {
+    const { blocks, warnings } = this.parseImpexForDiff(impexContent);
+    const plan = JSON.stringify(blocks);
+    const stagingId = Buffer.byteLength(plan, 'utf-8') > HybrisClient.INLINE_CONTENT_LIMIT
+      ? randomBytes(8).toString('hex')
+      : null;
+    try {
+      let planSource = `new JsonSlurper().parseText("${this.escapeGroovyString(plan)}")`;
+      if (stagingId) {
+        const staged = await this.stageFile(stagingId, 'plan.json', Buffer.from(plan, 'utf-8'));
+        planSource = `new JsonSlurper().parse(new File("${this.escapeGroovyString(staged.path)}"), "UTF-8")`;
+      }
+      return await this.compareImpexPlan(planSource, warnings);
+    } finally {
+      if (stagingId) await this.cleanupStaging(stagingId);
+    }
+  }
+
+  /**
+   * Compare an ImpEx plan with the current items. planSource is the Groovy expression that reads
+   * the plan, from an inline string literal or from a staged file.
+   */
+  private async compareImpexPlan(planSource: string, warnings: string[]): Promise<ImpexDiff> {
+    const script = `
+import de.hybris.platform.core.HybrisEnumValue
+import de.hybris.platform.core.model.ItemModel
+import de.hybris.platform.core.model.type.AtomicTypeModel
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+import groovy.json.JsonSlurper
+import java.text.SimpleDateFormat
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def typeService = spring.getBean("typeService")
+def modelService = spring.getBean("modelService")
+def commonI18NService = spring.getBean("commonI18NService")
+def DEFAULT_DATE_FORMAT = "dd.MM.yyyy HH:mm:ss"
+def blocks = ${planSource}
+
+def locales = [:]
+def localeFor = { String isocode ->
+    if (!isocode) return null
+    if (!locales.containsKey(isocode)) {
+        locales[isocode] = commonI18NService.getLocaleForLanguage(commonI18NService.getLanguage(isocode))
+    }
+    return locales[isocode]
+}
+
+def readAttribute = { obj, String qualifier, locale ->
+    if (obj instanceof ItemModel) {
+        return locale ? obj.getProperty(qualifier, locale) : modelService.getAttributeValue(obj, qualifier)
+    }
+    return obj[qualifier]
+}
+
+// Render a current value the way ImpEx would write it for the column's path
+def render
+render = { value, List path, String dateFormat ->
+    if (value == null) return null
+    if (value instanceof Collection) return value.collect { render(it, path, dateFormat) ?: "" }.join(",")
+    if (path) {
+        return path.collect { node -> render(readAttribute(value, node.qualifier, null), node.path, dateFormat) ?: "" }.join(":")
+    }
+    if (value instanceof Date) return new SimpleDateFormat(dateFormat ?: DEFAULT_DATE_FORMAT).format(value)
+    if (value instanceof ItemModel) return value.pk.toString()
+    if (value instanceof HybrisEnumValue) return value.code
+    return value.toString()
+}
+
+def sameValue = { String before, String after ->
+    if (before == after) return true
+    if (before == null || after == null) return false
+    if (before.isBigDecimal() && after.isBigDecimal()) return new BigDecimal(before) == new BigDecimal(after)
+    return ["true", "false"].contains(after.toLowerCase()) && before.equalsIgnoreCase(after)
+}
+
+// Candidates are narrowed in the query by plain unique columns, then filtered by rendered values
+def findItems = { String typeCode, List keyColumns, List values ->
+    def type = typeService.getComposedTypeForCode(typeCode)
+    def conditions = []
+    def params = [:]
+    def filters = []
+    keyColumns.each { column ->
+        def attributeType = typeService.getAttributeDescriptor(type, column.qualifier).attributeType
+        def javaClass = attributeType instanceof AtomicTypeModel ? attributeType.javaClass : null
+        if (!column.path && !column.lang && javaClass != null &&
+                (javaClass == String || javaClass == Boolean || Number.isAssignableFrom(javaClass))) {
+            def name = "k" + params.size()
+            params[name] = javaClass == String ? values[column.index] : javaClass.getConstructor(String).newInstance(values[column.index])
+            conditions << "{" + column.qualifier + "} = ?" + name
+        } else {
+            filters << column
+        }
+    }
+    def query = new FlexibleSearchQuery(
+        "SELECT {pk} FROM {" + typeCode + "}" + (conditions ? " WHERE " + conditions.join(" AND ") : ""),
+        params
+    )
+    return flexibleSearchService.search(query).result.findAll { item ->
+        filters.every { column ->
+            sameValue(render(readAttribute(item, column.qualifier, localeFor(column.lang)), column.path, column.dateFormat),
+                values[column.index])
+        }
+    }
+}
+
+def entries = []
+blocks.each { block ->
+    def columns = block.columns.findAll { it != null }
+    def keyColumns = columns.findAll { it.unique && !it.skip }
+
+    block.lines.each { line ->
+        def typeCode = line.subtype ?: block.type
+        def base = [lineNumber: line.lineNumber, type: typeCode, mode: block.mode, key: [:]]
+        keyColumns.each { base.key[it.header] = line.values[it.index] }
+        def withValues = columns.findAll { !it.unique && line.values[it.index] != null }
+
+        try {
+            if (keyColumns.isEmpty()) throw new IllegalArgumentException("Header has no unique columns to match items")
+            def missingKey = keyColumns.find { line.values[it.index] == null }
+            if (missingKey) throw new IllegalArgumentException("No value for unique column " + missingKey.header)
+
+            def found = findItems(typeCode, keyColumns, line.values)
+            if (found.size() > 1 && !block.batchMode) {
+                throw new IllegalStateException(found.size() + " items match the unique columns")
+            }
+
+            if (found.isEmpty()) {
+                if (block.mode == "UPDATE") {
+                    entries << base + [action: "error", message: "No item matches the unique columns"]
+                } else if (block.mode == "REMOVE") {
+                    entries << base + [action: "none", message: "No item matches the unique columns"]
+                } else {
+                    entries << base + [action: "create", changes: (keyColumns + withValues.findAll { !it.skip }).collect {
+                        [attribute: it.header, before: null, after: line.values[it.index]]
+                    }, notCompared: withValues.findAll { it.skip }*.header]
+                }
+                return
+            }
+
+            found.each { item ->
+                if (block.mode == "INSERT") {
+                    entries << base + [action: "error", pk: item.pk.toString(), message: "Item already exists; INSERT would fail"]
+                } else if (block.mode == "REMOVE") {
+                    entries << base + [action: "remove", pk: item.pk.toString()]
+                } else {
+                    def changes = []
+                    withValues.findAll { !it.skip }.each { column ->
+                        def before = render(readAttribute(item, column.qualifier, localeFor(column.lang)), column.path, column.dateFormat)
+                        def after = line.values[column.index]
+                        if (!sameValue(before, after)) {
+                            changes << [attribute: column.header, before: before, after: after]
+                        }
+                    }
+                    entries << base + [action: changes ? "update" : "unchanged", pk: item.pk.toString(),
+                                       changes: changes, notCompared: withValues.findAll { it.skip }*.header]
+                }
+            }
+        } catch (Exception e) {
+            entries << base + [action: "error", message: e.message ?: e.class.name]
+        }
+    }
+}
+
+return JsonOutput.toJson(entries)
+`;
+
+    const lines = await this.executeGroovyJson<ImpexLineChange[]>(script);
+
+    const totals: Record<string, Record<ImpexLineChange['action'], number>> = {};
+    for (const line of lines) {
+      totals[line.type] ??= { create: 0, update: 0, unchanged: 0, remove: 0, none: 0, error: 0 };
+      totals[line.type][line.action]++;
+      if (line.notCompared && line.notCompared.length === 0) delete line.notCompared;
+    }
+
+    return { lines, totals, warnings };
+  }
+
+  /**
+   * Export the items matched by a FlexibleSearch query as re-importable ImpEx: one INSERT_UPDATE block
+   * per item type, keyed by the type's unique attributes, with localized columns and references
+   * resolved through the referenced type's unique attributes.
+   */
+  async exportImpex(
+    flexQuery: string,
+    options: { attributes?: string[]; languages?: string[] } = {}
+  ): Promise<string> {
+    const escapedQuery = this.escapeGroovyString(flexQuery);
+    const attributeList = (options.attributes || []).map((a) => `"${this.escapeGroovyString(a)}"`).join(', ');
+    const languageList = (options.languages || []).map((l) => `"${this.escapeGroovyString(l)}"`).join(', ');
+
+    const script = `
+import de.hybris.platform.core.model.type.AtomicTypeModel
+import de.hybris.platform.core.model.type.CollectionTypeModel
+import de.hybris.platform.core.model.type.ComposedTypeModel
+import de.hybris.platform.core.model.type.MapTypeModel
+import de.hybris.platform.core.model.type.RelationDescriptorModel
+import de.hybris.platform.core.model.enumeration.EnumerationMetaTypeModel
+import java.text.SimpleDateFormat
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def typeService = spring.getBean("typeService")
+def modelService = spring.getBean("modelService")
+def commonI18NService = spring.getBean("commonI18NService")
+
+def selectedAttributes = [${attributeList}]
+def selectedLanguages = [${languageList}]
+def systemAttributes = ["pk", "itemtype", "owner", "creationtime", "modifiedtime", "sealed", "comments",
+    "savedValues", "valueHistory", "synchronizedCopies", "synchronizationSources", "assignedCockpitItemTemplates",
+    "allDocuments"] as Set
+def DATE_FORMAT = "dd.MM.yyyy HH:mm:ss"
+
+// Quote values containing separators, quotes, line breaks or surrounding whitespace
+def escapeValue = { String value ->
+    if (value == null) return ""
+    if (value.contains(';') || value.contains('"') || value.contains('\\n') || value.contains('\\r') ||
+            value != value.trim() || value.startsWith('#')) {
+        return '"' + value.replace('"', '""') + '"'
+    }
+    return value
+}
+
+def uniqueAttributes = { ComposedTypeModel type ->
+    typeService.getAttributeDescriptorsForType(type)
+        .findAll { it.unique && !systemAttributes.contains(it.qualifier) }
+        .sort { it.qualifier }
+}
+
+// A value spec describes how values of a type are written: the column suffix, extra
+// header modifiers and a formatter. Returns null for types that cannot be exported.
+def valueSpec
+def referenceSpec
+valueSpec = { type, int depth ->
+    if (type instanceof EnumerationMetaTypeModel) {
+        return [suffix: "(code)", modifiers: [], format: { v -> v.code }]
+    }
+    if (type instanceof ComposedTypeModel) {
+        def ref = referenceSpec(type, depth)
+        if (ref == null) return null
+        return [suffix: "(" + ref.header + ")", modifiers: [], format: { v -> ref.format(v) }]
+    }
+    if (type instanceof CollectionTypeModel) {
+        def element = valueSpec(type.elementType, depth)
+        if (element == null) return null
+        return [suffix: element.suffix, modifiers: element.modifiers,
+                format: { v -> v.collect { element.format(it) }.join(",") }]
+    }
+    if (type instanceof AtomicTypeModel) {
+        if (java.util.Date.isAssignableFrom(type.javaClass)) {
+            return [suffix: "", modifiers: ["dateformat=" + DATE_FORMAT],
+                    format: { v -> new SimpleDateFormat(DATE_FORMAT).format(v) }]
+        }
+        return [suffix: "", modifiers: [], format: { v -> v.toString() }]
+    }
+    return null
+}
+
+// References are written as the referenced type's unique key path, e.g. catalogVersion(catalog(id),version)
+referenceSpec = { ComposedTypeModel type, int depth ->
+    if (depth > 3) return null
+    def keys = uniqueAttributes(type)
+    if (keys.isEmpty()) return null
+    def parts = keys.collect { ad ->
+        def spec = valueSpec(ad.attributeType, depth + 1)
+        spec == null ? null : [qualifier: ad.qualifier, spec: spec]
+    }
+    if (parts.contains(null)) return null
+    return [
+        header: parts.collect { it.qualifier + it.spec.suffix }.join(","),
+        format: { item ->
+            parts.collect { part ->
+                def value = modelService.getAttributeValue(item, part.qualifier)
+                value == null ? "" : part.spec.format(value)
+            }.join(":")
+        }
+    ]
+}
+
+def header = { String name, List modifiers ->
+    modifiers.isEmpty() ? name : name + "[" + modifiers.join(",") + "]"
+}
+
+def languages = selectedLanguages.isEmpty()
+    ? commonI18NService.getAllLanguages().findAll { it.active }
+    : selectedLanguages.collect { commonI18NService.getLanguage(it) }
+
+// Columns for one attribute: one per language when localized
+def columnsFor = { ad, boolean unique ->
+    def modifiers = unique ? ["unique=true"] : []
+    if (ad.localized) {
+        def spec = ad.attributeType instanceof MapTypeModel ? valueSpec(ad.attributeType.returntype, 0) : null
+        if (spec == null) return null
+        return languages.collect { language ->
+            def locale = commonI18NService.getLocaleForLanguage(language)
+            [
+                header: header(ad.qualifier + spec.suffix, modifiers + ["lang=" + language.isocode] + spec.modifiers),
+                value: { item ->
+                    def v = item.getProperty(ad.qualifier, locale)
+                    v == null ? "" : spec.format(v)
+                }
+            ]
+        }
+    }
+    def spec = valueSpec(ad.attributeType, 0)
+    if (spec == null) return null
+    return [[
+        header: header(ad.qualifier + spec.suffix, modifiers + spec.modifiers),
+        value: { item ->
+            def v = modelService.getAttributeValue(item, ad.qualifier)
+            v == null ? "" : spec.format(v)
+        }
+    ]]
+}
+
+try {
+    def query = "${escapedQuery}"
+    def searchResult = flexibleSearchService.search(query)
+
+    if (searchResult.result.isEmpty()) {
+        println "No results found for query"
+        return "# No results found"
+    }
+
+    // Mixed result sets get one header block per type, in order of first appearance
+    def itemsByType = new LinkedHashMap()
+    searchResult.result.each { item ->
+        if (!(item instanceof de.hybris.platform.core.model.ItemModel)) {
+            throw new IllegalArgumentException("Query must select items, e.g. SELECT {pk} FROM {Product}")
+        }
+        itemsByType.computeIfAbsent(item.itemtype, { [] }) << item
+    }
+
+    def sb = new StringBuilder()
+    sb.append("# Exported from FlexibleSearch: ").append(query).append("\\n")
+    sb.append("# Result count: ").append(searchResult.totalCount).append("\\n")
+
+    itemsByType.each { typeCode, items ->
+        def type = typeService.getComposedTypeForCode(typeCode)
+        def descriptors = typeService.getAttributeDescriptorsForType(type)
+        def keys = uniqueAttributes(type)
+        if (keys.isEmpty()) {
+            keys = descriptors.findAll { it.qualifier == "code" }
+        }
+        sb.append("\\n")
+        if (keys.isEmpty()) {
+            sb.append("# Skipped ").append(items.size()).append(" ").append(typeCode)
+              .append(" items: the type has no unique attributes to match on\\n")
+            return
+        }
+
+        def others
+        if (selectedAttributes.isEmpty()) {
+            others = descriptors.findAll { ad ->
+                !ad.unique && !systemAttributes.contains(ad.qualifier) && ad.attributeHandler == null &&
+                    !(ad instanceof RelationDescriptorModel) && (ad.writable || ad.initial)
+            }.sort { it.qualifier }
+        } else {
+            def byQualifier = descriptors.collectEntries { [(it.qualifier): it] }
+            def missing = selectedAttributes.findAll { !byQualifier.containsKey(it) }
+            if (!missing.isEmpty()) {
+                sb.append("# ").append(typeCode).append(" has no attributes: ").append(missing.join(", ")).append("\\n")
+            }
+            others = selectedAttributes.findAll { byQualifier.containsKey(it) && !keys*.qualifier.contains(it) }
+                .collect { byQualifier[it] }
+        }
+
+        def columns = []
+        def skipped = []
+        keys.each { ad ->
+            def c = columnsFor(ad, true)
+            if (c == null) skipped << ad.qualifier else columns.addAll(c)
+        }
+        others.each { ad ->
+            def c = columnsFor(ad, false)
+            if (c == null) skipped << ad.qualifier else columns.addAll(c)
+        }
+        if (!skipped.isEmpty()) {
+            sb.append("# Skipped attributes that cannot be written as ImpEx: ").append(skipped.join(", ")).append("\\n")
+        }
+
+        sb.append("INSERT_UPDATE ").append(typeCode)
+        columns.each { sb.append(";").append(it.header) }
+        sb.append("\\n")
+        items.each { item ->
+            columns.each { column -> sb.append(";").append(escapeValue(column.value(item))) }
+            sb.append("\\n")
+        }
+    }
+
+    println "SUCCESS: Exported " + searchResult.result.size() + " items in " + itemsByType.size() + " type(s)"
+    return sb.toString()
+} catch (Exception e) {
+    println "ERROR: " + e.getMessage()
+    e.printStackTrace()
+    return "# Error: " + e.getMessage()
+}
+`;
+    const result = await this.executeGroovyScript(script);
+    const execResult = String(result.result || '');
+
+    // If result looks like ImpEx content, return it
+    if (execResult.includes('INSERT_UPDATE') || execResult.includes('# ')) {
+      return execResult;
+    }
+
+    return result.output || execResult || '# Export failed';
+  }
+
+  // Backoffice / Admin API Methods
+
+  // Groovy closures for looking up cron jobs and rendering them and their triggers into JSON-friendly maps
+  private static readonly CRONJOB_RENDERERS = `
+def findCronJob = { ref ->
+    def found = null
+    try {
+        found = spring.getBean("cronJobService").getCronJob(ref)
+    } catch (Exception ignored) {
+    }
+    if (found == null && ref.isLong()) {
+        try {
+            found = spring.getBean("modelService").get(de.hybris.platform.core.PK.parse(ref))
+        } catch (Exception ignored) {
+        }
+    }
+    found instanceof de.hybris.platform.cronjob.model.CronJobModel ? found : null
+}
+
+// Triggers defined by their fields instead of a cron expression are shown as the equivalent expression;
+// trigger months are 0-based like java.util.Calendar
+def cronExpressionOf = { t ->
+    if (t.cronExpression) return t.cronExpression
+    def field = { v, offset -> v == null || v < 0 ? "*" : (t.relative && v > 0 ? "0/" + v : (v + offset).toString()) }
+    def daysOfWeek = t.daysOfWeek ? t.daysOfWeek.collect { it.code.substring(0, 3) }.join(",") : "?"
+    [field(t.second, 0), field(t.minute, 0), field(t.hour, 0), t.daysOfWeek ? "?" : field(t.day, 0), field(t.month, 1), daysOfWeek].join(" ")
+}
+
+def describeTrigger = { t ->
+    [
+        pk: t.pk.toString(),
+        cronExpression: cronExpressionOf(t),
+        active: t.active ?: false,
+        nextActivation: t.activationTime?.toInstant()?.toString(),
+        cronJob: t.cronJob?.code,
+        job: t.job?.code
+    ]
+}
+
+def describeCronJob = { cj ->
+    [
+        code: cj.code,
+        pk: cj.pk.toString(),
+        job: cj.job?.code,
+        jobType: cj.job?.itemtype,
+        active: cj.active ?: false,
+        status: cj.status?.code,
+        result: cj.result?.code,
+        nodeId: cj.nodeID,
+        nodeGroup: cj.nodeGroup,
+        startTime: cj.startTime?.toInstant()?.toString(),
+        endTime: cj.endTime?.toInstant()?.toString(),
+        triggers: (cj.triggers ?: []).collect { describeTrigger(it) }
+    ]
+}
+`;
+
+  /**
+   * List cron jobs with their last run and triggers, optionally filtered by code pattern, status,
+   * result, job type (including subtypes) and cluster node.
+   */
+  async getCronJobs(filter: CronJobFilter = {}): Promise<{ cronJobs: CronJobSummary[]; count: number }> {
+    const escapedCode = filter.code ? this.escapeGroovyString(this.toLikePattern(filter.code)) : '';
+    const escapedStatus = filter.status ? this.escapeGroovyString(filter.status.toUpperCase()) : '';
+    const escapedResult = filter.result ? this.escapeGroovyString(filter.result.toUpperCase()) : '';
+    const escapedJobType = filter.jobType ? this.escapeGroovyString(filter.jobType) : '';
+    const script = `
+import de.hybris.platform.servicelayer.exceptions.UnknownIdentifierException
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def enumerationService = spring.getBean("enumerationService")
+def typeService = spring.getBean("typeService")
+${HybrisClient.CRONJOB_RENDERERS}
+def conditions = []
+def params = [:]
+
+def code = "${escapedCode}"
+if (code) {
+    conditions << "{cj.code} LIKE ?code ESCAPE '!'"
+    params.code = code
+}
+
+def enumValue = { enumType, value ->
+    try {
+        return enumerationService.getEnumerationValue(enumType, value)
+    } catch (UnknownIdentifierException e) {
+        return null
+    }
+}
+
+def status = "${escapedStatus}"
+if (status) {
+    def value = enumValue("CronJobStatus", status)
+    if (value == null) return JsonOutput.toJson([error: "Unknown cron job status: " + status])
+    conditions << "{cj.status} = ?status"
+    params.status = value
+}
+
+def result = "${escapedResult}"
+if (result) {
+    def value = enumValue("CronJobResult", result)
+    if (value == null) return JsonOutput.toJson([error: "Unknown cron job result: " + result])
+    conditions << "{cj.result} = ?result"
+    params.result = value
+}
+
+def jobType = "${escapedJobType}"
+if (jobType) {
+    def type
+    try {
+        type = typeService.getComposedTypeForCode(jobType)
+    } catch (UnknownIdentifierException e) {
+        return JsonOutput.toJson([error: "Type not found: " + jobType])
+    }
+    conditions << "{j.itemtype} IN (?jobTypes)"
+    params.jobTypes = [type] + type.allSubTypes
+}
+${filter.nodeId !== undefined ? `
+conditions << "{cj.nodeID} = ?nodeId"
+params.nodeId = ${Math.trunc(filter.nodeId)}
+` : ''}${filter.active !== undefined ? `
+conditions << "{cj.active} = ?active"
+params.active = ${filter.active ? 'Boolean.TRUE' : 'Boolean.FALSE'}
+` : ''}
+def queryText = "SELECT {cj.pk} FROM {CronJob AS cj LEFT JOIN Job AS j ON {cj.job} = {j.pk}}" +
+    (conditions ? " WHERE " + conditions.join(" AND ") : "") + " ORDER BY {cj.code}"
+def query = new FlexibleSearchQuery(queryText, params)
+query.setCount(${Math.floor(filter.limit ?? 200)})
+def cronJobs = flexibleSearchService.search(query).result.collect { describeCronJob(it) }
+
+return JsonOutput.toJson([cronJobs: cronJobs, count: cronJobs.size()])
+`;
+    return this.executeGroovyJson<{ cronJobs: CronJobSummary[]; count: number }>(script);
+  }
+
+  async triggerCronJob(
+    cronJobCode: string,
+    options: CronJobWaitOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<CronJobTriggerResult> {
+    // Use Groovy script to start the cron job asynchronously
+    const escapedCode = this.escapeGroovyString(cronJobCode);
+    const script = `
+import de.hybris.platform.servicelayer.cronjob.CronJobService
+
+def cronJobService = spring.getBean("cronJobService")
+def cronJob = null
+try {
+    cronJob = cronJobService.getCronJob("${escapedCode}")
+} catch (Exception ignored) {
+}
+if (cronJob == null) {
+    println "CronJob not found: ${escapedCode}"
+    return "NOT_FOUND"
+}
+if (cronJobService.isRunning(cronJob)) {
+    println "CronJob already running: ${escapedCode}"
+    return "ALREADY_RUNNING"
+}
+def triggeredAt = System.currentTimeMillis()
+cronJobService.performCronJob(cronJob, false)
+println "CronJob triggered: " + cronJob.code + " (pk " + cronJob.pk + ") at " + triggeredAt
+return "SUCCESS"
+`;
+    const result = await this.executeGroovyScript(script, true); // commit=true so the job thread sees the started cron job
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('triggered') || execResult === 'SUCCESS';
+    return this.completeCronJobTrigger(
+      {
+        success,
+        message: success
+          ? `CronJob ${cronJobCode} triggered`
+          : `Failed to trigger ${cronJobCode}: ${output || execResult || 'Unknown error'}`,
+        ...this.parseCronJobHandle(output),
+      },
+      options,
+      onProgress
+    );
+  }
+
+  /**
+   * Trigger scripts print "... (pk <pk>) at <server millis>"; the code is taken from the same line.
+   */
+  private parseCronJobHandle(output: string): { cronJobCode?: string; pk?: string; triggeredAt?: number } {
+    const match = output.match(/(?:triggered: |via cronjob )(\S+) \(pk (\d+)\) at (\d+)/);
+    return match ? { cronJobCode: match[1], pk: match[2], triggeredAt: Number(match[3]) } : {};
+  }
+
+  /**
+   * In wait mode, poll the triggered cron job until it ends or the timeout passes and report its final status.
+   */
+  private async completeCronJobTrigger(
+    trigger: CronJobTriggerResult & { triggeredAt?: number },
+    options: CronJobWaitOptions,
+    onProgress?: ProgressCallback
+  ): Promise<CronJobTriggerResult> {
+    const { triggeredAt, ...result } = trigger;
+    if (!options.wait || !result.success || !result.pk) {
+      return result;
+    }
+
+    const { status, timedOut } = await this.waitForCronJob(result.pk, options.timeoutSeconds, onProgress, triggeredAt);
+    const duration = status.durationMs !== null ? ` in ${(status.durationMs / 1000).toFixed(1)}s` : '';
+    return {
+      ...result,
+      success: !timedOut && status.result === 'SUCCESS',
+      message: timedOut
+        ? `${result.cronJobCode} still ${status.status} after ${options.timeoutSeconds ?? HybrisClient.CRONJOB_WAIT_DEFAULT_SECONDS}s`
+        : `${result.cronJobCode} ${status.status} with result ${status.result}${duration}`,
+      status,
+      timedOut,
+    };
+  }
+
+  /**
+   * Status of a cron job by code or PK, with timing and the last lines of its log
+   * (latest log file, or database log entries when it has no log file).
+   */
+  async getCronJobStatus(cronJob: string, logLines = 20): Promise<CronJobStatus> {
+    const escapedRef = this.escapeGroovyString(cronJob);
+    const script = `
+import groovy.json.JsonOutput
+
+def cronJobService = spring.getBean("cronJobService")
+def modelService = spring.getBean("modelService")
+def mediaService = spring.getBean("mediaService")
+${HybrisClient.CRONJOB_RENDERERS}
+def ref = "${escapedRef}"
+def cronJob = findCronJob(ref)
+if (cronJob == null) {
+    return JsonOutput.toJson([error: "Cron job not found: " + ref])
+}
+modelService.refresh(cronJob)
+
+def lines = []
+def logFile = cronJob.logFiles ? cronJob.logFiles.max { it.creationtime } : null
+if (logFile != null) {
+    // Log files grow large, so only the tail is read, allowing up to 1KB per line
+    def tailBytes = ${Math.floor(logLines) * 1024}L
+    def skip = Math.max(0L, (logFile.size ?: 0L) - tailBytes)
+    def stream = mediaService.getStreamFromMedia(logFile)
+    try {
+        def remaining = skip
+        while (remaining > 0) {
+            def skipped = stream.skip(remaining)
+            if (skipped <= 0) break
+            remaining -= skipped
+        }
+        def tail = new String(stream.bytes, "UTF-8").readLines()
+        // The first line read may start mid-line
+        lines = (skip > 0 ? tail.drop(1) : tail).takeRight(${Math.floor(logLines)})
+    } finally {
+        stream.close()
+    }
+} else if (cronJob.logs) {
+    lines = cronJob.logs.sort(false) { it.creationtime }.takeRight(${Math.floor(logLines)}).collect { log ->
+        "[" + (log.level?.code ?: "") + "] " + (log.message ?: "")
+    }
+}
+
+def running = cronJobService.isRunning(cronJob)
+def start = cronJob.startTime
+def end = running ? null : cronJob.endTime
+def duration = start == null ? null : ((end ?: new Date()).time - start.time)
+
+return JsonOutput.toJson([
+    code: cronJob.code,
+    pk: cronJob.pk.toString(),
+    job: cronJob.job?.code,
+    status: cronJob.status?.code,
+    result: cronJob.result?.code,
+    running: running,
+    startTime: start?.toInstant()?.toString(),
+    endTime: end?.toInstant()?.toString(),
+    durationMs: duration,
+    logLines: lines
+])
+`;
+    return this.executeGroovyJson<CronJobStatus>(script);
+  }
+
+  /**
+   * Poll a cron job until it is FINISHED or ABORTED, or the timeout passes. When the trigger time is
+   * known (server clock), an end time from an earlier run does not count as completion.
+   */
+  async waitForCronJob(
+    cronJob: string,
+    timeoutSeconds = HybrisClient.CRONJOB_WAIT_DEFAULT_SECONDS,
+    onProgress?: ProgressCallback,
+    triggeredAt?: number,
+    logLines = 20
+  ): Promise<{ status: CronJobStatus; timedOut: boolean }> {
+    const started = Date.now();
+    const deadline = started + timeoutSeconds * 1000;
+    const isDone = (status: CronJobStatus) =>
+      !status.running &&
+      (status.status === 'FINISHED' || status.status === 'ABORTED') &&
+      (triggeredAt === undefined || (status.endTime !== null && Date.parse(status.endTime) >= triggeredAt));
+
+    let status = await this.getCronJobStatus(cronJob, logLines);
+    while (!isDone(status) && Date.now() < deadline) {
+      await onProgress?.(
+        Math.round((Date.now() - started) / 1000),
+        timeoutSeconds,
+        `${status.code}: ${status.status ?? 'UNKNOWN'}`
+      );
+      await new Promise((wake) =>
+        setTimeout(wake, Math.min(HybrisClient.CRONJOB_POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())))
+      );
+      status = await this.getCronJobStatus(cronJob, logLines);
+    }
+    return { status, timedOut: !isDone(status) };
+  }
+
+  /**
+   * Past runs of a cron job, newest first, each with the database log entries written during it.
+   * Platforms without run history entries report only the latest run.
+   */
+  async getCronJobHistory(cronJob: string, maxRuns = 10, logEntries = 20): Promise<CronJobHistory> {
+    const escapedRef = this.escapeGroovyString(cronJob);
+    const script = `
+import groovy.json.JsonOutput
+
+def modelService = spring.getBean("modelService")
+${HybrisClient.CRONJOB_RENDERERS}
+def ref = "${escapedRef}"
+def cronJob = findCronJob(ref)
+if (cronJob == null) {
+    return JsonOutput.toJson([error: "Cron job not found: " + ref])
+}
+modelService.refresh(cronJob)
+
+def entries = cronJob.hasProperty("cronJobHistoryEntries") ? (cronJob.cronJobHistoryEntries ?: []) : []
+def runs = entries.findAll { it.startTime != null }.sort { -it.startTime.time }.take(${Math.floor(maxRuns)}).collect { h ->
+    [
+        startTime: h.startTime, endTime: h.endTime,
+        status: h.status?.code, result: h.result?.code,
+        nodeId: h.nodeID, user: h.userUid, failureMessage: h.failureMessage
+    ]
+}
+if (!runs && cronJob.startTime != null) {
+    runs = [[
+        startTime: cronJob.startTime, endTime: cronJob.endTime,
+        status: cronJob.status?.code, result: cronJob.result?.code,
+        nodeId: cronJob.nodeID, user: cronJob.sessionUser?.uid, failureMessage: null
+    ]]
+}
+
+// Each log entry belongs to the run during which it was written
+def logs = (cronJob.logs ?: []).sort(false) { it.creationtime }
+def renderedRuns = runs.collect { run ->
+    def until = run.endTime ?: new Date()
+    def runLogs = logs.findAll { !it.creationtime.before(run.startTime) && !it.creationtime.after(until) }
+    run + [
+        startTime: run.startTime.toInstant().toString(),
+        endTime: run.endTime?.toInstant()?.toString(),
+        logs: runLogs.takeRight(${Math.floor(logEntries)}).collect { log ->
+            [time: log.creationtime.toInstant().toString(), level: log.level?.code, message: log.message]
+        }
+    ]
+}
+
+return JsonOutput.toJson([
+    code: cronJob.code,
+    pk: cronJob.pk.toString(),
+    job: cronJob.job?.code,
+    runs: renderedRuns,
+    logFiles: (cronJob.logFiles ?: []).sort(false) { -it.creationtime.time }.collect { f ->
+        [code: f.code, createdAt: f.creationtime?.toInstant()?.toString()]
+    }
+])
+`;
+    return this.executeGroovyJson<CronJobHistory>(script);
+  }
+
+  /**
+   * Request a running cron job to abort. The job stops at its next abort check, so wait with
+   * get_cronjob_status to see it reach ABORTED.
+   */
+  async abortCronJob(cronJob: string): Promise<{ success: boolean; message: string }> {
+    const escapedRef = this.escapeGroovyString(cronJob);
+    const script = `
+def cronJobService = spring.getBean("cronJobService")
+${HybrisClient.CRONJOB_RENDERERS}
+try {
+    def cronJob = findCronJob("${escapedRef}")
+    if (cronJob == null) {
+        println "ERROR: Cron job not found: ${escapedRef}"
+        return "NOT_FOUND"
+    }
+    if (!cronJobService.isRunning(cronJob)) {
+        println "ERROR: Cron job is not running: " + cronJob.code
+        return "NOT_RUNNING"
+    }
+    if (!cronJobService.isAbortable(cronJob)) {
+        println "ERROR: Cron job cannot be aborted: " + cronJob.code
+        return "NOT_ABORTABLE"
+    }
+
+    cronJobService.requestAbortCronJob(cronJob)
+    println "SUCCESS: Abort requested for cron job " + cronJob.code
+    return "SUCCESS"
+} catch (Exception e) {
+    println "ERROR: " + e.getMessage()
+    e.printStackTrace()
+    return "ERROR: " + e.getMessage()
+}
+`;
+    const result = await this.executeGroovyScript(script, true); // commit=true so the abort request is persisted
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
+    const errorMatch = output.match(/ERROR: (.+)/);
+    return {
+      success,
+      message: success
+        ? `Abort requested for cron job ${cronJob}`
+        : errorMatch ? errorMatch[1] : `Failed to abort cron job: ${output || execResult || 'Unknown error'}`,
+    };
+  }
+
+  /**
+   * Enable or disable a cron job. Triggers do not start inactive cron jobs.
+   */
+  async setCronJobActive(cronJob: string, active: boolean): Promise<{ success: boolean; message: string }> {
+    const escapedRef = this.escapeGroovyString(cronJob);
+    const state = active ? 'enabled' : 'disabled';
+    const script = `
+def modelService = spring.getBean("modelService")
+${HybrisClient.CRONJOB_RENDERERS}
+try {
+    def cronJob = findCronJob("${escapedRef}")
+    if (cronJob == null) {
+        println "ERROR: Cron job not found: ${escapedRef}"
+        return "NOT_FOUND"
+    }
+
+    cronJob.active = ${active ? 'Boolean.TRUE' : 'Boolean.FALSE'}
+    modelService.save(cronJob)
+    println "SUCCESS: Cron job " + cronJob.code + " ${state}"
+    return "SUCCESS"
+} catch (Exception e) {
+    println "ERROR: " + e.getMessage()
+    e.printStackTrace()
+    return "ERROR: " + e.getMessage()
+}
+`;
+    const result = await this.executeGroovyScript(script, true); // commit=true so the change is persisted
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
+    const errorMatch = output.match(/ERROR: (.+)/);
+    return {
+      success,
+      message: success
+        ? `Cron job ${cronJob} ${state}`
+        : errorMatch ? errorMatch[1] : `Failed to update cron job: ${output || execResult || 'Unknown error'}`,
+    };
+  }
+
+  /**
+   * Create a trigger that runs a cron job on a cron expression (Quartz syntax, e.g. "0 0 2 * * ?").
+   */
+  async createTrigger(cronJob: string, cronExpression: string, active = true): Promise<CronJobTrigger> {
+    const escapedRef = this.escapeGroovyString(cronJob);
+    const escapedExpression = this.escapeGroovyString(cronExpression);
+    const script = `
+import de.hybris.platform.cronjob.model.TriggerModel
+import groovy.json.JsonOutput
+
+def modelService = spring.getBean("modelService")
+${HybrisClient.CRONJOB_RENDERERS}
+def cronJob = findCronJob("${escapedRef}")
+if (cronJob == null) {
+    return JsonOutput.toJson([error: "Cron job not found: ${escapedRef}"])
+}
+
+try {
+    def trigger = modelService.create(TriggerModel)
+    trigger.cronJob = cronJob
+    trigger.cronExpression = "${escapedExpression}"
+    trigger.active = ${active ? 'Boolean.TRUE' : 'Boolean.FALSE'}
+    modelService.save(trigger)
+    modelService.refresh(trigger)
+    return JsonOutput.toJson(describeTrigger(trigger))
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Failed to create trigger: " + e.getMessage()])
+}
+`;
+    return this.executeGroovyJson<CronJobTrigger>(script, true); // commit=true so the trigger is persisted
+  }
+
+  /**
+   * Change the cron expression and/or active flag of an existing trigger, identified by PK.
+   */
+  async updateTrigger(
+    triggerPk: string,
+    changes: { cronExpression?: string; active?: boolean }
+  ): Promise<CronJobTrigger> {
+    if (!/^\d+$/.test(triggerPk)) {
+      throw new Error('triggerPk must be a numeric PK');
+    }
+    if (changes.cronExpression === undefined && changes.active === undefined) {
+      throw new Error('Provide cronExpression and/or active to update');
+    }
+    const script = `
+import de.hybris.platform.core.PK
+import de.hybris.platform.cronjob.model.TriggerModel
+import groovy.json.JsonOutput
+
+def modelService = spring.getBean("modelService")
+${HybrisClient.CRONJOB_RENDERERS}
+def trigger = null
+try {
+    trigger = modelService.get(PK.parse("${triggerPk}"))
+} catch (Exception ignored) {
+}
+if (!(trigger instanceof TriggerModel)) {
+    return JsonOutput.toJson([error: "Trigger not found: ${triggerPk}"])
+}
+
+try {
+${changes.cronExpression !== undefined ? `    trigger.cronExpression = "${this.escapeGroovyString(changes.cronExpression)}"\n` : ''}${changes.active !== undefined ? `    trigger.active = ${changes.active ? 'Boolean.TRUE' : 'Boolean.FALSE'}\n` : ''}    modelService.save(trigger)
+    modelService.refresh(trigger)
+    return JsonOutput.toJson(describeTrigger(trigger))
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Failed to update trigger: " + e.getMessage()])
+}
+`;
+    return this.executeGroovyJson<CronJobTrigger>(script, true); // commit=true so the change is persisted
   }
 
   async clearCache(cacheType?: string): Promise<{ success: boolean; message: string }> {
     // Use Groovy script to clear cache
     const escapedType = cacheType ? this.escapeGroovyString(cacheType) : '';
     const script = `
-import de.hybris.platform.core.Registry
+import de.hybris.platform.core.Registry
+
+def cacheType = "${escapedType}"
+
+if (cacheType == "all" || cacheType == "") {
+    Registry.getCurrentTenant().getCache().clear()
+    println "All caches cleared"
+    return "SUCCESS"
+} else {
+    // Clear specific cache region if supported
+    try {
+        def cacheController = spring.getBean("cacheController")
+        cacheController.clearCache()
+        println "Cache cleared: " + cacheType
+        return "SUCCESS"
+    } catch (Exception e) {
+        Registry.getCurrentTenant().getCache().clear()
+        println "Cleared all caches (specific cache type not supported)"
+        return "SUCCESS"
+    }
+}
+`;
+    const result = await this.executeGroovyScript(script);
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('cleared') || execResult === 'SUCCESS';
+    return {
+      success,
+      message: success ? 'Cache cleared successfully' : `Failed to clear cache: ${output || execResult || 'Unknown error'}`,
+    };
+  }
+
+  async getSystemInfo(): Promise<Record<string, unknown>> {
+    // Use Groovy script to get system info
+    const script = `
+import de.hybris.platform.core.Registry
+import de.hybris.platform.util.Config
+
+def tenant = Registry.getCurrentTenant()
+def runtime = Runtime.getRuntime()
+
+def info = [
+    hybrisVersion: Config.getString("build.version", "unknown"),
+    buildNumber: Config.getString("build.number", "unknown"),
+    tenantId: tenant.getTenantID(),
+    clusterId: Config.getInt("cluster.id", 0),
+    clusterIsland: Config.getInt("cluster.island.id", 0),
+    javaVersion: System.getProperty("java.version"),
+    javaVendor: System.getProperty("java.vendor"),
+    osName: System.getProperty("os.name"),
+    osArch: System.getProperty("os.arch"),
+    maxMemoryMB: (runtime.maxMemory() / 1024 / 1024) as int,
+    totalMemoryMB: (runtime.totalMemory() / 1024 / 1024) as int,
+    freeMemoryMB: (runtime.freeMemory() / 1024 / 1024) as int,
+    availableProcessors: runtime.availableProcessors()
+]
+
+return groovy.json.JsonOutput.toJson(info)
+`;
+    const result = await this.executeGroovyScript(script);
+    try {
+      // Parse the JSON result - executionResult contains the returned value
+      const jsonStr = String(result.result || '');
+      if (jsonStr && jsonStr.startsWith('{')) {
+        return JSON.parse(jsonStr);
+      }
+      // If result is not JSON, return what we have
+      return {
+        output: result.output,
+        result: result.result,
+      };
+    } catch {
+      return {
+        output: result.output,
+        result: result.result,
+        parseError: 'Failed to parse system info JSON',
+      };
+    }
+  }
+
+  // Catalog Synchronization
+
+  async triggerCatalogSync(
+    catalogId: string,
+    sourceVersion: string,
+    targetVersion: string,
+    options: CronJobWaitOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<CronJobTriggerResult> {
+    // Use Groovy script to trigger catalog sync by creating a properly configured CronJob
+    const escapedCatalogId = this.escapeGroovyString(catalogId);
+    const escapedSource = this.escapeGroovyString(sourceVersion);
+    const escapedTarget = this.escapeGroovyString(targetVersion);
+    const script = `
+import de.hybris.platform.catalog.model.synchronization.CatalogVersionSyncCronJobModel
+import de.hybris.platform.cronjob.enums.JobLogLevel
+
+try {
+    def catalogVersionService = spring.getBean("catalogVersionService")
+    def modelService = spring.getBean("modelService")
+    def cronJobService = spring.getBean("cronJobService")
+    def flexibleSearchService = spring.getBean("flexibleSearchService")
+
+    def sourceCatalogVersion = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedSource}")
+    def targetCatalogVersion = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedTarget}")
+
+    if (sourceCatalogVersion == null) {
+        println "ERROR: Source catalog version not found: ${escapedCatalogId}:${escapedSource}"
+        return "SOURCE_NOT_FOUND"
+    }
+    if (targetCatalogVersion == null) {
+        println "ERROR: Target catalog version not found: ${escapedCatalogId}:${escapedTarget}"
+        return "TARGET_NOT_FOUND"
+    }
+
+    // Find sync job using flexible search
+    def query = "SELECT {pk} FROM {CatalogVersionSyncJob} WHERE {sourceVersion} = ?source AND {targetVersion} = ?target"
+    def params = [source: sourceCatalogVersion, target: targetCatalogVersion]
+    def searchResult = flexibleSearchService.search(query, params)
+
+    if (searchResult.result.isEmpty()) {
+        println "ERROR: No sync job found for ${escapedCatalogId} ${escapedSource} -> ${escapedTarget}"
+        println "Available sync jobs:"
+        def allJobs = flexibleSearchService.search("SELECT {pk}, {code} FROM {CatalogVersionSyncJob}").result
+        allJobs.each { job -> println "  - " + job.code }
+        return "SYNC_JOB_NOT_FOUND"
+    }
+
+    def syncJob = searchResult.result[0]
+    println "Found sync job: " + syncJob.code
+
+    // Create a new CronJob with all mandatory attributes
+    def syncCronJob = modelService.create(CatalogVersionSyncCronJobModel.class)
+    syncCronJob.setJob(syncJob)
+    syncCronJob.setCode("mcp_sync_" + System.currentTimeMillis())
+
+    // Set all mandatory attributes
+    syncCronJob.setCreateSavedValues(false)
+    syncCronJob.setForceUpdate(false)
+    syncCronJob.setLogToDatabase(false)
+    // File logging gives status checks the last log lines
+    syncCronJob.setLogToFile(true)
+    syncCronJob.setLogLevelDatabase(JobLogLevel.WARNING)
+    syncCronJob.setLogLevelFile(JobLogLevel.INFO)
+
+    modelService.save(syncCronJob)
+    println "Created sync cronjob: " + syncCronJob.code
+
+    // Start the cronjob asynchronously
+    def triggeredAt = System.currentTimeMillis()
+    cronJobService.performCronJob(syncCronJob, false)
+
+    println "SUCCESS: Catalog sync triggered: ${escapedCatalogId} ${escapedSource} -> ${escapedTarget}"
+    println "Sync triggered: " + syncCronJob.code + " (pk " + syncCronJob.pk + ") at " + triggeredAt
+    return "SUCCESS"
+} catch (Exception e) {
+    println "ERROR: " + e.getMessage()
+    e.printStackTrace()
+    return "ERROR: " + e.getMessage()
+}
+`;
+    const result = await this.executeGroovyScript(script, true); // commit=true so the job thread sees the new sync cronjob
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
+    const errorMatch = output.match(/ERROR: (.+)/);
+    return this.completeCronJobTrigger(
+      {
+        success,
+        message: success
+          ? `Catalog sync triggered: ${catalogId} ${sourceVersion} -> ${targetVersion}`
+          : errorMatch ? errorMatch[1] : `Failed to sync: ${output || execResult || 'Unknown error'}`,
+        ...this.parseCronJobHandle(output),
+      },
+      options,
+      onProgress
+    );
+  }
+
+  async compareCatalogVersions(
+    catalogId: string,
+    sourceVersion: string,
+    targetVersion: string,
+    options: { types?: string[]; attributes?: string[]; maxItems?: number; maxDifferences?: number } = {}
+  ): Promise<CatalogVersionComparison> {
+    // Type codes and qualifiers end up in query text, so only identifiers are accepted
+    for (const name of [...(options.types || []), ...(options.attributes || [])]) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Invalid type or attribute name: ${name}`);
+      }
+    }
+    const escapedCatalogId = this.escapeGroovyString(catalogId);
+    const escapedSource = this.escapeGroovyString(sourceVersion);
+    const escapedTarget = this.escapeGroovyString(targetVersion);
+    const typeList = (options.types || []).map((t) => `"${t}"`).join(', ');
+    const attributeList = (options.attributes || []).map((a) => `"${a}"`).join(', ');
+
+    // Items are matched by the type's catalog unique key; types default to the sync job's root types
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def catalogVersionService = spring.getBean("catalogVersionService")
+def catalogTypeService = spring.getBean("catalogTypeService")
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def modelService = spring.getBean("modelService")
+${HybrisClient.ITEM_VALUE_RENDERER}
+def source
+def target
+try {
+    source = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedSource}")
+    target = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedTarget}")
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Catalog version not found: " + e.getMessage()])
+}
+
+def typeCodes = [${typeList}]
+if (typeCodes.isEmpty()) {
+    def syncJobs = flexibleSearchService.search(
+        "SELECT {pk} FROM {CatalogVersionSyncJob} WHERE {sourceVersion} = ?source AND {targetVersion} = ?target",
+        [source: source, target: target]
+    ).result
+    typeCodes = syncJobs ? syncJobs[0].rootTypes*.code : []
+}
+if (typeCodes.isEmpty()) {
+    return JsonOutput.toJson([error: "No sync job found for ${escapedCatalogId} ${escapedSource} -> ${escapedTarget}; specify the types to compare"])
+}
+
+def attributeNames = [${attributeList}]
+def maxItems = ${Math.floor(options.maxItems ?? 5000)}
+def maxDifferences = ${Math.floor(options.maxDifferences ?? 100)}
+
+def countItems = { typeCode, cvAttr, catalogVersion ->
+    def query = new FlexibleSearchQuery("SELECT COUNT({pk}) FROM {" + typeCode + "} WHERE {" + cvAttr + "} = ?cv", [cv: catalogVersion])
+    query.setResultClassList([Integer.class])
+    flexibleSearchService.search(query).result[0]
+}
+
+// Both versions are read in unique key order, so truncated windows cover roughly the same items
+def loadItems = { typeCode, cvAttr, keyAttrs, catalogVersion ->
+    def orderBy = keyAttrs.collect { "{" + it + "}" }.join(", ")
+    def query = new FlexibleSearchQuery("SELECT {pk} FROM {" + typeCode + "} WHERE {" + cvAttr + "} = ?cv ORDER BY " + orderBy, [cv: catalogVersion])
+    query.setCount(maxItems + 1)
+    def items = flexibleSearchService.search(query).result
+    def byKey = new LinkedHashMap()
+    items.take(maxItems).each { item ->
+        byKey[keyAttrs.collect { String.valueOf(renderValue(modelService.getAttributeValue(item, it))) }.join("|")] = item
+    }
+    [byKey: byKey, truncated: items.size() > maxItems]
+}
+
+def limited = { list -> [count: list.size(), items: list.take(maxDifferences)] }
+
+def compareType = { typeCode ->
+    if (!catalogTypeService.isCatalogVersionAwareType(typeCode)) {
+        return [type: typeCode, error: "Type is not catalog version aware"]
+    }
+    def cvAttr = catalogTypeService.getCatalogVersionContainerAttribute(typeCode)
+    def keyAttrs = catalogTypeService.getCatalogVersionUniqueKeyAttribute(typeCode) as List
+    def sourceItems = loadItems(typeCode, cvAttr, keyAttrs, source)
+    def targetItems = loadItems(typeCode, cvAttr, keyAttrs, target)
+
+    def modified = []
+    def attributeDifferences = []
+    sourceItems.byKey.each { key, sourceItem ->
+        def targetItem = targetItems.byKey[key]
+        if (targetItem == null) return
+        if (sourceItem.modifiedtime && targetItem.modifiedtime && sourceItem.modifiedtime.after(targetItem.modifiedtime)) {
+            modified << key
+        }
+        attributeNames.each { attr ->
+            try {
+                def sourceValue = renderValue(modelService.getAttributeValue(sourceItem, attr))
+                def targetValue = renderValue(modelService.getAttributeValue(targetItem, attr))
+                if (sourceValue != targetValue) {
+                    attributeDifferences << [key: key, attribute: attr, source: sourceValue, target: targetValue]
+                }
+            } catch (Exception ignored) {
+                // Attribute not defined on this subtype
+            }
+        }
+    }
+
+    def comparison = [
+        type: typeCode,
+        uniqueKey: keyAttrs,
+        sourceCount: countItems(typeCode, cvAttr, source),
+        targetCount: countItems(typeCode, cvAttr, target),
+        truncated: sourceItems.truncated || targetItems.truncated
+    ]
+    // A key outside one version's window may still exist in that version, so missing items are
+    // only reported when both versions were read completely
+    if (comparison.truncated) {
+        comparison.note = "Missing items are not listed because a version has more than " + maxItems +
+            " items; raise maxItems or compare fewer types. Modified items and attribute differences cover the loaded items."
+    } else {
+        comparison.missingInTarget = limited(sourceItems.byKey.keySet().findAll { !targetItems.byKey.containsKey(it) } as List)
+        comparison.missingInSource = limited(targetItems.byKey.keySet().findAll { !sourceItems.byKey.containsKey(it) } as List)
+    }
+    comparison.modifiedAfterTarget = limited(modified)
+    comparison.attributeDifferences = limited(attributeDifferences)
+    comparison
+}
+
+return JsonOutput.toJson([
+    catalogId: "${escapedCatalogId}",
+    sourceVersion: "${escapedSource}",
+    targetVersion: "${escapedTarget}",
+    types: typeCodes.collect { typeCode ->
+        try {
+            compareType(typeCode)
+        } catch (Exception e) {
+            [type: typeCode, error: e.getMessage()]
+        }
+    }
+])
+`;
+    return this.executeGroovyJson<CatalogVersionComparison>(script);
+  }
+
+  // Solr Search Management
+
+  async listSolrIndexes(): Promise<{ configs: SolrFacetSearchConfig[] }> {
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def configs = flexibleSearchService.search("SELECT {pk} FROM {SolrFacetSearchConfig} ORDER BY {name}").result
+
+def result = configs.collect { config ->
+    [
+        name: config.name,
+        description: config.description,
+        solrServerConfig: config.solrServerConfig?.name,
+        indexConfig: config.solrIndexConfig?.name,
+        catalogVersions: config.catalogVersions.collect { it.catalog.id + ":" + it.version },
+        languages: config.languages*.isocode,
+        currencies: config.currencies*.isocode,
+        indexedTypes: config.solrIndexedTypes.collect { indexedType ->
+            [
+                identifier: indexedType.identifier,
+                type: indexedType.type?.code,
+                indexName: indexedType.indexName,
+                properties: indexedType.solrIndexedProperties*.name.sort()
+            ]
+        }
+    ]
+}
+
+return JsonOutput.toJson([configs: result])
+`;
+    return this.executeGroovyJson<{ configs: SolrFacetSearchConfig[] }>(script);
+  }
+
+  async getSolrIndexStatus(facetSearchConfig?: string): Promise<{ indexes: SolrIndexStatus[] }> {
+    const escapedName = facetSearchConfig ? this.escapeGroovyString(facetSearchConfig) : '';
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def configName = "${escapedName}"
+
+def configs = configName
+    ? flexibleSearchService.search("SELECT {pk} FROM {SolrFacetSearchConfig} WHERE {name} = ?name", [name: configName]).result
+    : flexibleSearchService.search("SELECT {pk} FROM {SolrFacetSearchConfig} ORDER BY {name}").result
+
+if (configName && configs.isEmpty()) {
+    return JsonOutput.toJson([error: "Facet search config not found: " + configName])
+}
+
+def indexes = configs.collect { config ->
+    def cronJobs = flexibleSearchService.search(
+        "SELECT {pk} FROM {SolrIndexerCronJob} WHERE {facetSearchConfig} = ?config",
+        [config: config]
+    ).result
+
+    def lastRuns = cronJobs.groupBy { it.indexerOperation?.code }.collect { operation, jobs ->
+        def last = jobs.max { (it.startTime ?: it.creationtime)?.time ?: 0 }
+        [
+            operation: operation,
+            cronJobCode: last.code,
+            status: last.status?.code,
+            result: last.result?.code,
+            startTime: last.startTime,
+            endTime: last.endTime,
+            durationMs: last.startTime && last.endTime ? last.endTime.time - last.startTime.time : null
+        ]
+    }
+
+    [facetSearchConfig: config.name, lastRuns: lastRuns]
+}
+
+return JsonOutput.toJson([indexes: indexes])
+`;
+    return this.executeGroovyJson<{ indexes: SolrIndexStatus[] }>(script);
+  }
+
+  async triggerSolrIndexing(
+    facetSearchConfig: string,
+    operation: 'full' | 'update',
+    options: CronJobWaitOptions = {},
+    onProgress?: ProgressCallback
+  ): Promise<CronJobTriggerResult> {
+    // Reuse the config's indexer cron job if one exists, otherwise create one for solrIndexerJob
+    const escapedName = this.escapeGroovyString(facetSearchConfig);
+    const script = `
+import de.hybris.platform.solrfacetsearch.enums.IndexerOperationValues
+import de.hybris.platform.solrfacetsearch.model.indexer.cron.SolrIndexerCronJobModel
+
+try {
+    def flexibleSearchService = spring.getBean("flexibleSearchService")
+    def modelService = spring.getBean("modelService")
+    def cronJobService = spring.getBean("cronJobService")
+
+    def configs = flexibleSearchService.search(
+        "SELECT {pk} FROM {SolrFacetSearchConfig} WHERE {name} = ?name",
+        [name: "${escapedName}"]
+    ).result
+    if (configs.isEmpty()) {
+        println "ERROR: Facet search config not found: ${escapedName}"
+        return "CONFIG_NOT_FOUND"
+    }
+    def config = configs[0]
+    def operation = IndexerOperationValues.${operation === 'full' ? 'FULL' : 'UPDATE'}
+
+    def existing = flexibleSearchService.search(
+        "SELECT {pk} FROM {SolrIndexerCronJob} WHERE {facetSearchConfig} = ?config AND {indexerOperation} = ?operation",
+        [config: config, operation: operation]
+    ).result
+
+    def cronJob
+    if (!existing.isEmpty()) {
+        cronJob = existing[0]
+    } else {
+        cronJob = modelService.create(SolrIndexerCronJobModel.class)
+        cronJob.setCode("mcp_solr_" + operation.code.toLowerCase() + "_" + System.currentTimeMillis())
+        cronJob.setJob(cronJobService.getJob("solrIndexerJob"))
+        cronJob.setFacetSearchConfig(config)
+        cronJob.setIndexerOperation(operation)
+        modelService.save(cronJob)
+        println "Created indexer cronjob: " + cronJob.code
+    }
+
+    if (cronJobService.isRunning(cronJob)) {
+        println "ERROR: Indexer cronjob already running: " + cronJob.code
+        return "ALREADY_RUNNING"
+    }
+
+    def triggeredAt = System.currentTimeMillis()
+    cronJobService.performCronJob(cronJob, false)
+    println "SUCCESS: Indexing triggered via cronjob " + cronJob.code + " (pk " + cronJob.pk + ") at " + triggeredAt
+    return "SUCCESS"
+} catch (Exception e) {
+    println "ERROR: " + e.getMessage()
+    e.printStackTrace()
+    return "ERROR: " + e.getMessage()
+}
+`;
+    const result = await this.executeGroovyScript(script, true); // commit=true to persist a newly created indexer cronjob
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
+    const errorMatch = output.match(/ERROR: (.+)/);
+    return this.completeCronJobTrigger(
+      {
+        success,
+        message: success
+          ? `${operation === 'full' ? 'Full' : 'Update'} indexing triggered for ${facetSearchConfig}`
+          : errorMatch ? errorMatch[1] : `Failed to trigger indexing: ${output || execResult || 'Unknown error'}`,
+        ...this.parseCronJobHandle(output),
+      },
+      options,
+      onProgress
+    );
+  }
+
+  async getIndexedProperties(
+    facetSearchConfig: string,
+    indexedType?: string
+  ): Promise<{ facetSearchConfig: string; indexedTypes: SolrIndexedTypeProperties[] }> {
+    const escapedName = this.escapeGroovyString(facetSearchConfig);
+    const escapedType = indexedType ? this.escapeGroovyString(indexedType) : '';
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def configs = flexibleSearchService.search(
+    "SELECT {pk} FROM {SolrFacetSearchConfig} WHERE {name} = ?name",
+    [name: "${escapedName}"]
+).result
+if (configs.isEmpty()) {
+    return JsonOutput.toJson([error: "Facet search config not found: ${escapedName}"])
+}
+
+def typeFilter = "${escapedType}"
+def indexedTypes = configs[0].solrIndexedTypes.findAll { !typeFilter || it.identifier == typeFilter || it.type?.code == typeFilter }
+
+def result = indexedTypes.collect { indexedType ->
+    [
+        identifier: indexedType.identifier,
+        type: indexedType.type?.code,
+        defaultFieldValueProvider: indexedType.defaultFieldValueProvider,
+        properties: indexedType.solrIndexedProperties.sort(false) { it.name }.collect { property ->
+            [
+                name: property.name,
+                type: property.type?.code,
+                facet: property.facet ?: false,
+                localized: property.localized ?: false,
+                currency: property.currency ?: false,
+                multiValue: property.multiValue ?: false,
+                fieldValueProvider: property.fieldValueProvider,
+                valueProviderParameter: property.valueProviderParameter,
+                valueProviderParameters: property.valueProviderParameters,
+                useForSpellchecking: property.useForSpellchecking ?: false,
+                useForAutocomplete: property.useForAutocomplete ?: false
+            ]
+        }
+    ]
+}
+
+return JsonOutput.toJson([facetSearchConfig: configs[0].name, indexedTypes: result])
+`;
+    return this.executeGroovyJson<{ facetSearchConfig: string; indexedTypes: SolrIndexedTypeProperties[] }>(script);
+  }
+
+  // Configuration & Extensions
+
+  async getProperty(key: string): Promise<ConfigProperty> {
+    const escapedKey = this.escapeGroovyString(key);
+    const script = `
+import de.hybris.platform.util.Config
+import groovy.json.JsonOutput
+
+return JsonOutput.toJson([value: Config.getParameter("${escapedKey}")])
+`;
+    const result = await this.executeGroovyJson<{ value: string | null }>(script);
+    if (result.value === null || result.value === undefined) {
+      return { key, value: null, masked: false };
+    }
+    const value = this.maskPropertyValue(key, result.value);
+    return { key, value, masked: value !== result.value };
+  }
+
+  async searchProperties(
+    pattern: string,
+    searchValues = true,
+    maxCount = 200
+  ): Promise<{ properties: ConfigProperty[]; count: number; truncated: boolean }> {
+    // Pattern is a Java regex, matched case-insensitively against keys (and values)
+    const escapedPattern = this.escapeGroovyString(pattern);
+    const script = `
+import de.hybris.platform.util.Config
+import groovy.json.JsonOutput
+import java.util.regex.Pattern
+
+def pattern = Pattern.compile("${escapedPattern}", Pattern.CASE_INSENSITIVE)
+def searchValues = ${searchValues ? 'true' : 'false'}
+
+def matches = Config.getAllParameters().findAll { key, value ->
+    pattern.matcher(key).find() || (searchValues && value != null && pattern.matcher(value).find())
+}.sort { it.key }
+
+return JsonOutput.toJson([
+    properties: matches.take(${Math.floor(maxCount)}),
+    count: matches.size()
+])
+`;
+    const result = await this.executeGroovyJson<{ properties: Record<string, string>; count: number }>(script);
+    const properties = Object.entries(result.properties || {}).map(([key, rawValue]) => {
+      const value = this.maskPropertyValue(key, rawValue);
+      return { key, value, masked: value !== rawValue };
+    });
+    return {
+      properties,
+      count: result.count,
+      truncated: result.count > properties.length,
+    };
+  }
+
+  async getExtensions(): Promise<{ extensions: ExtensionInfo[] }> {
+    const script = `
+import de.hybris.platform.util.Utilities
+import groovy.json.JsonOutput
+
+def extensions = Utilities.getPlatformConfig().getExtensionInfosInBuildOrder().collect { ext ->
+    [
+        name: ext.name,
+        path: ext.extensionDirectory?.absolutePath,
+        requires: ext.requiredExtensionInfos*.name.sort(),
+        coreModule: ext.coreModule != null,
+        webRoot: ext.webModule?.webRoot
+    ]
+}
+
+return JsonOutput.toJson([extensions: extensions])
+`;
+    return this.executeGroovyJson<{ extensions: ExtensionInfo[] }>(script);
+  }
+
+  // Log Analysis
+
+  private sanitizeLogLine(line: string): string {
+    return this.sanitizeErrorMessage(line, HybrisClient.LOG_LINE_MAX_LENGTH);
+  }
+
+  async getLogFiles(): Promise<{ logDir: string; files: LogFile[] }> {
+    const script = `
+import de.hybris.platform.util.Config
+import groovy.json.JsonOutput
+${HybrisClient.LOG_FILE_HELPERS}
+def files = logFiles().sort { -it.lastModified() }.collect { f ->
+    [name: relativeName(f), size: f.length(), lastModified: new Date(f.lastModified())]
+}
+
+return JsonOutput.toJson([logDir: logDir.path, files: files])
+`;
+    return this.executeGroovyJson<{ logDir: string; files: LogFile[] }>(script);
+  }
+
+  async tailLog(file?: string, lines = 100): Promise<{ file: string; lines: string[] }> {
+    const escapedFile = file ? this.escapeGroovyString(file) : '';
+    const script = `
+import de.hybris.platform.util.Config
+import groovy.json.JsonOutput
+${HybrisClient.LOG_FILE_HELPERS}
+def file = resolveLogFile("${escapedFile}")
+if (file == null) {
+    return JsonOutput.toJson([error: "Log file not found: ${escapedFile}"])
+}
+
+def raf = new RandomAccessFile(file, "r")
+try {
+    def length = raf.length()
+    def start = Math.max(0L, length - ${HybrisClient.LOG_SCAN_BYTES}L)
+    raf.seek(start)
+    def bytes = new byte[(int) (length - start)]
+    raf.readFully(bytes)
+    def allLines = new String(bytes, "UTF-8").readLines()
+    if (start > 0 && !allLines.isEmpty()) {
+        allLines = allLines.drop(1)
+    }
+    return JsonOutput.toJson([file: relativeName(file), lines: allLines.takeRight(${Math.floor(lines)})])
+} finally {
+    raf.close()
+}
+`;
+    const result = await this.executeGroovyJson<{ file: string; lines: string[] }>(script);
+    return {
+      file: result.file,
+      lines: result.lines.map((line) => this.sanitizeLogLine(line)),
+    };
+  }
+
+  async searchLogs(options: LogSearchOptions = {}): Promise<{ file: string; total: number; entries: LogEntry[] }> {
+    const escapedFile = options.file ? this.escapeGroovyString(options.file) : '';
+    const escapedPattern = options.pattern ? this.escapeGroovyString(options.pattern) : '';
+    const level = options.level ? options.level.toUpperCase() : '';
+    if (level && !['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'].includes(level)) {
+      throw new Error(`Invalid log level: ${options.level}`);
+    }
+    const sinceMs = options.since ? options.since.getTime() : null;
+    const untilMs = options.until ? options.until.getTime() : null;
+    const maxResults = Math.floor(options.maxResults ?? 100);
+
+    // Entries start at a line with a timestamp and level; other lines (stack traces) are appended
+    const script = `
+import de.hybris.platform.util.Config
+import groovy.json.JsonOutput
+import java.nio.channels.Channels
+import java.time.LocalDateTime
+import java.time.ZoneId
+import java.util.regex.Pattern
+${HybrisClient.LOG_FILE_HELPERS}
+def file = resolveLogFile("${escapedFile}")
+if (file == null) {
+    return JsonOutput.toJson([error: "Log file not found: ${escapedFile}"])
+}
+
+def levels = ["TRACE", "DEBUG", "INFO", "WARN", "ERROR", "FATAL"]
+def minLevel = levels.indexOf("${level}")
+def patternText = "${escapedPattern}"
+def pattern = patternText ? Pattern.compile(patternText, Pattern.CASE_INSENSITIVE) : null
+def sinceMs = ${sinceMs ?? 'null'}
+def untilMs = ${untilMs ?? 'null'}
+def maxResults = ${maxResults}
+def maxLineLength = ${HybrisClient.LOG_LINE_MAX_LENGTH}
+def timestampPattern = ~/(\\d{4})\\D(\\d{2})\\D(\\d{2})[ T](\\d{2}):(\\d{2}):(\\d{2})/
+def levelPattern = ~/\\b(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|SEVERE)\\b/
+
+def matches = new ArrayDeque()
+def total = 0
+def current = null
+
+def accept = { entry ->
+    if (entry == null) return
+    if (minLevel >= 0 && levels.indexOf(entry.level) < minLevel) return
+    if (sinceMs != null && (entry.time == null || entry.time < sinceMs)) return
+    if (untilMs != null && (entry.time == null || entry.time > untilMs)) return
+    if (pattern != null && !pattern.matcher(entry.lines.join("\\n")).find()) return
+    total++
+    matches.addLast([timestamp: entry.timestamp, level: entry.level, lines: entry.lines])
+    if (matches.size() > maxResults) matches.removeFirst()
+}
+
+def raf = new RandomAccessFile(file, "r")
+def start = Math.max(0L, raf.length() - ${HybrisClient.LOG_SCAN_BYTES}L)
+raf.seek(start)
+def reader = new BufferedReader(new InputStreamReader(Channels.newInputStream(raf.channel), "UTF-8"))
+try {
+    if (start > 0) reader.readLine()
+    String line
+    while ((line = reader.readLine()) != null) {
+        if (line.length() > maxLineLength) line = line.substring(0, maxLineLength)
+        def ts = timestampPattern.matcher(line)
+        def lm = ts.find() ? levelPattern.matcher(line.substring(ts.end())) : null
+        if (lm != null && lm.find()) {
+            accept(current)
+            def level = lm.group(1)
+            if (level == "WARNING") level = "WARN"
+            if (level == "SEVERE") level = "ERROR"
+            def time = null
+            try {
+                time = LocalDateTime.of(ts.group(1) as int, ts.group(2) as int, ts.group(3) as int,
+                        ts.group(4) as int, ts.group(5) as int, ts.group(6) as int)
+                    .atZone(ZoneId.systemDefault()).toInstant().toEpochMilli()
+            } catch (Exception ignored) {
+            }
+            current = [timestamp: ts.group(0), level: level, time: time, lines: [line]]
+        } else if (current != null && current.lines.size() < 50) {
+            current.lines << line
+        }
+    }
+    accept(current)
+} finally {
+    reader.close()
+}
+
+return JsonOutput.toJson([file: relativeName(file), total: total, entries: matches as List])
+`;
+    const result = await this.executeGroovyJson<{ file: string; total: number; entries: LogEntry[] }>(script);
+    return {
+      file: result.file,
+      total: result.total,
+      entries: result.entries.map((entry) => ({
+        ...entry,
+        lines: entry.lines.map((line) => this.sanitizeLogLine(line)),
+      })),
+    };
+  }
+
+  async getRecentErrors(
+    sinceMinutes = 60,
+    file?: string,
+    maxGroups = 20
+  ): Promise<{ file: string; totalErrors: number; groups: LogErrorGroup[] }> {
+    const search = await this.searchLogs({
+      level: 'ERROR',
+      since: new Date(Date.now() - sinceMinutes * 60 * 1000),
+      file,
+      maxResults: 1000,
+    });
+
+    const exceptionPattern = /\b((?:[a-zA-Z_$][\w$]*\.)+[A-Z][\w$]*(?:Exception|Error|Throwable))\b/;
+    const groups = new Map<string, LogErrorGroup>();
+    for (const entry of search.entries) {
+      const match = entry.lines.join('\n').match(exceptionPattern);
+      const exceptionType = match ? match[1] : '(no exception)';
+      const group = groups.get(exceptionType);
+      if (group) {
+        group.count++;
+        group.lastSeen = entry.timestamp;
+        group.message = entry.lines[0];
+        group.stackTrace = entry.lines.slice(1, 30);
+      } else {
+        groups.set(exceptionType, {
+          exceptionType,
+          count: 1,
+          firstSeen: entry.timestamp,
+          lastSeen: entry.timestamp,
+          message: entry.lines[0],
+          stackTrace: entry.lines.slice(1, 30),
+        });
+      }
+    }
+
+    return {
+      file: search.file,
+      totalErrors: search.total,
+      groups: Array.from(groups.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, maxGroups),
+    };
+  }
+
+  // CMS & Content
+
+  /**
+   * Groovy snippet resolving the content catalog version into `catalogVersion`,
+   * returning a JSON error from the script if it does not exist.
+   */
+  private contentCatalogVersionScript(catalogId?: string, catalogVersion?: string): string {
+    const escapedCatalogId = this.escapeGroovyString(catalogId || this.config.contentCatalogId!);
+    const escapedVersion = this.escapeGroovyString(catalogVersion || this.config.contentCatalogVersion!);
+    return `
+def catalogVersion
+try {
+    catalogVersion = spring.getBean("catalogVersionService").getCatalogVersion("${escapedCatalogId}", "${escapedVersion}")
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Catalog version not found: ${escapedCatalogId}:${escapedVersion}"])
+}
+`;
+  }
+
+  // Groovy closures rendering CMS items into JSON-friendly maps
+  private static readonly CMS_RENDERERS = `
+def describeRestrictions = { item ->
+    (item.restrictions ?: []).collect { r -> [uid: r.uid, type: r.itemtype, name: r.name] }
+}
+
+def describeComponent = { c ->
+    [
+        uid: c.uid,
+        name: c.name,
+        type: c.itemtype,
+        visible: c.visible ?: false,
+        restrictions: describeRestrictions(c),
+        onlyOneRestrictionMustApply: c.onlyOneRestrictionMustApply,
+        children: c.hasProperty("simpleCMSComponents") ? c.simpleCMSComponents*.uid : null
+    ]
+}
+
+def describePage = { p ->
+    [
+        uid: p.uid,
+        name: p.name,
+        type: p.itemtype,
+        template: p.masterTemplate?.uid,
+        label: p.hasProperty("label") ? p.label : null,
+        defaultPage: p.defaultPage,
+        approvalStatus: p.approvalStatus?.code,
+        restrictions: describeRestrictions(p)
+    ]
+}
+`;
+
+  async listCmsPages(
+    catalogId?: string,
+    catalogVersion?: string,
+    template?: string,
+    maxCount = 200
+  ): Promise<{ pages: CmsPageSummary[]; count: number }> {
+    const escapedTemplate = template ? this.escapeGroovyString(template) : '';
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+${this.contentCatalogVersionScript(catalogId, catalogVersion)}
+${HybrisClient.CMS_RENDERERS}
+def template = "${escapedTemplate}"
+def queryText = "SELECT {p.pk} FROM {AbstractPage AS p} WHERE {p.catalogVersion} = ?catalogVersion"
+def params = [catalogVersion: catalogVersion]
+if (template) {
+    queryText += " AND {p.masterTemplate} IN ({{SELECT {t.pk} FROM {PageTemplate AS t} WHERE {t.uid} = ?template AND {t.catalogVersion} = ?catalogVersion}})"
+    params.template = template
+}
+queryText += " ORDER BY {p.uid}"
+
+def query = new FlexibleSearchQuery(queryText, params)
+query.setCount(${Math.floor(maxCount)})
+def pages = flexibleSearchService.search(query).result.collect(describePage)
+
+return JsonOutput.toJson([pages: pages, count: pages.size()])
+`;
+    return this.executeGroovyJson<{ pages: CmsPageSummary[]; count: number }>(script);
+  }
+
+  async getCmsPage(pageUid: string, catalogId?: string, catalogVersion?: string): Promise<CmsPage> {
+    // Page-level slots (ContentSlotForPage) override template slots at the same position
+    const escapedUid = this.escapeGroovyString(pageUid);
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+${this.contentCatalogVersionScript(catalogId, catalogVersion)}
+${HybrisClient.CMS_RENDERERS}
+def pages = flexibleSearchService.search(
+    "SELECT {pk} FROM {AbstractPage} WHERE {uid} = ?uid AND {catalogVersion} = ?catalogVersion",
+    [uid: "${escapedUid}", catalogVersion: catalogVersion]
+).result
+if (pages.isEmpty()) {
+    return JsonOutput.toJson([error: "CMS page not found: ${escapedUid}"])
+}
+def page = pages[0]
+
+def slotsByPosition = new LinkedHashMap()
+if (page.masterTemplate != null) {
+    flexibleSearchService.search(
+        "SELECT {pk} FROM {ContentSlotForTemplate} WHERE {pageTemplate} = ?template",
+        [template: page.masterTemplate]
+    ).result.each { rel -> slotsByPosition[rel.position] = [slot: rel.contentSlot, fromTemplate: true] }
+}
+flexibleSearchService.search(
+    "SELECT {pk} FROM {ContentSlotForPage} WHERE {page} = ?page",
+    [page: page]
+).result.each { rel -> slotsByPosition[rel.position] = [slot: rel.contentSlot, fromTemplate: false] }
+
+def slots = slotsByPosition.collect { position, entry ->
+    def slot = entry.slot
+    [
+        position: position,
+        uid: slot.uid,
+        name: slot.name,
+        active: slot.active ?: false,
+        activeFrom: slot.activeFrom,
+        activeUntil: slot.activeUntil,
+        fromTemplate: entry.fromTemplate,
+        components: (slot.cmsComponents ?: []).collect(describeComponent)
+    ]
+}
+
+def result = describePage(page)
+result.catalogVersion = catalogVersion.catalog.id + ":" + catalogVersion.version
+result.onlyOneRestrictionMustApply = page.onlyOneRestrictionMustApply
+result.slots = slots
+
+return JsonOutput.toJson(result)
+`;
+    return this.executeGroovyJson<CmsPage>(script);
+  }
+
+  async getCmsComponent(
+    componentUid: string,
+    catalogId?: string,
+    catalogVersion?: string
+  ): Promise<{ uid: string; type: string; attributes: Record<string, unknown> }> {
+    const escapedUid = this.escapeGroovyString(componentUid);
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def modelService = spring.getBean("modelService")
+def typeService = spring.getBean("typeService")
+${this.contentCatalogVersionScript(catalogId, catalogVersion)}
+def components = flexibleSearchService.search(
+    "SELECT {pk} FROM {AbstractCMSComponent} WHERE {uid} = ?uid AND {catalogVersion} = ?catalogVersion",
+    [uid: "${escapedUid}", catalogVersion: catalogVersion]
+).result
+if (components.isEmpty()) {
+    return JsonOutput.toJson([error: "CMS component not found: ${escapedUid}"])
+}
+def component = components[0]
+
+${HybrisClient.ITEM_VALUE_RENDERER}
+def attributes = [:]
+typeService.getAttributeDescriptorsForType(typeService.getComposedTypeForCode(component.itemtype))
+    .findAll { it.readable }
+    .sort { it.qualifier }
+    .each { ad ->
+        try {
+            attributes[ad.qualifier] = renderValue(modelService.getAttributeValue(component, ad.qualifier))
+        } catch (Exception e) {
+            attributes[ad.qualifier] = "<unavailable: " + e.getClass().simpleName + ">"
+        }
+    }
+
+return JsonOutput.toJson([uid: component.uid, type: component.itemtype, attributes: attributes])
+`;
+    return this.executeGroovyJson<{ uid: string; type: string; attributes: Record<string, unknown> }>(script);
+  }
+
+  async listPageTemplates(catalogId?: string, catalogVersion?: string): Promise<{ templates: CmsPageTemplate[] }> {
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+${this.contentCatalogVersionScript(catalogId, catalogVersion)}
+def templates = flexibleSearchService.search(
+    "SELECT {pk} FROM {PageTemplate} WHERE {catalogVersion} = ?catalogVersion ORDER BY {uid}",
+    [catalogVersion: catalogVersion]
+).result.collect { t ->
+    [
+        uid: t.uid,
+        name: t.name,
+        type: t.itemtype,
+        active: t.active ?: false,
+        frontendTemplateName: t.frontendTemplateName,
+        restrictedPageTypes: (t.restrictedPageTypes ?: [])*.code,
+        availableSlots: (t.availableContentSlots ?: [])*.name
+    ]
+}
+
+return JsonOutput.toJson([templates: templates])
+`;
+    return this.executeGroovyJson<{ templates: CmsPageTemplate[] }>(script);
+  }
+
+  // Stock & Inventory
+
+  // Groovy closure rendering a StockLevel into a JSON-friendly map
+  private static readonly STOCK_LEVEL_RENDERER = `
+def describeStockLevel = { sl ->
+    [
+        productCode: sl.productCode,
+        warehouse: sl.warehouse?.code,
+        available: sl.available,
+        reserved: sl.reserved,
+        overSelling: sl.overSelling,
+        availableToSell: sl.available - sl.reserved,
+        inStockStatus: sl.inStockStatus?.code,
+        preOrder: sl.preOrder,
+        maxPreOrder: sl.maxPreOrder,
+        releaseDate: sl.releaseDate,
+        nextDeliveryTime: sl.nextDeliveryTime
+    ]
+}
+`;
+
+  async getStockLevels(productCode: string): Promise<{ productCode: string; stockLevels: StockLevelInfo[] }> {
+    const escapedCode = this.escapeGroovyString(productCode);
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+${HybrisClient.STOCK_LEVEL_RENDERER}
+def stockLevels = flexibleSearchService.search(
+    "SELECT {pk} FROM {StockLevel} WHERE {productCode} = ?productCode",
+    [productCode: "${escapedCode}"]
+).result.sort(false) { it.warehouse?.code }.collect(describeStockLevel)
+
+return JsonOutput.toJson([productCode: "${escapedCode}", stockLevels: stockLevels])
+`;
+    return this.executeGroovyJson<{ productCode: string; stockLevels: StockLevelInfo[] }>(script);
+  }
+
+  async getLowStock(
+    warehouseCode: string,
+    threshold = 10,
+    maxCount = 200
+  ): Promise<{ warehouse: string; threshold: number; stockLevels: StockLevelInfo[] }> {
+    const escapedWarehouse = this.escapeGroovyString(warehouseCode);
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def warehouseService = spring.getBean("warehouseService")
+${HybrisClient.STOCK_LEVEL_RENDERER}
+def warehouse
+try {
+    warehouse = warehouseService.getWarehouseForCode("${escapedWarehouse}")
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Warehouse not found: ${escapedWarehouse}"])
+}
+
+def query = new FlexibleSearchQuery(
+    "SELECT {pk} FROM {StockLevel} WHERE {warehouse} = ?warehouse AND ({available} - {reserved}) <= ?threshold " +
+    "ORDER BY ({available} - {reserved}) ASC, {productCode}",
+    [warehouse: warehouse, threshold: ${Math.floor(threshold)}]
+)
+query.setCount(${Math.floor(maxCount)})
+def stockLevels = flexibleSearchService.search(query).result.collect(describeStockLevel)
+
+return JsonOutput.toJson([warehouse: warehouse.code, threshold: ${Math.floor(threshold)}, stockLevels: stockLevels])
+`;
+    return this.executeGroovyJson<{ warehouse: string; threshold: number; stockLevels: StockLevelInfo[] }>(script);
+  }
+
+  async updateStockLevel(
+    productCode: string,
+    warehouseCode: string,
+    available: number,
+    reserved?: number
+  ): Promise<{ success: boolean; message: string }> {
+    const escapedCode = this.escapeGroovyString(productCode);
+    const escapedWarehouse = this.escapeGroovyString(warehouseCode);
+    const script = `
+import de.hybris.platform.ordersplitting.model.StockLevelModel
+
+try {
+    def flexibleSearchService = spring.getBean("flexibleSearchService")
+    def modelService = spring.getBean("modelService")
+    def warehouseService = spring.getBean("warehouseService")
+
+    def warehouse = warehouseService.getWarehouseForCode("${escapedWarehouse}")
+    def existing = flexibleSearchService.search(
+        "SELECT {pk} FROM {StockLevel} WHERE {productCode} = ?productCode AND {warehouse} = ?warehouse",
+        [productCode: "${escapedCode}", warehouse: warehouse]
+    ).result
+
+    def stockLevel
+    if (existing.isEmpty()) {
+        stockLevel = modelService.create(StockLevelModel.class)
+        stockLevel.setProductCode("${escapedCode}")
+        stockLevel.setWarehouse(warehouse)
+        stockLevel.setReserved(0)
+        println "Creating stock level for ${escapedCode} at ${escapedWarehouse}"
+    } else {
+        stockLevel = existing[0]
+    }
+
+    stockLevel.setAvailable(${Math.floor(available)})
+    ${reserved !== undefined ? `stockLevel.setReserved(${Math.floor(reserved)})` : ''}
+    modelService.save(stockLevel)
+
+    println "SUCCESS: Stock for ${escapedCode} at ${escapedWarehouse} set to available=" + stockLevel.available + ", reserved=" + stockLevel.reserved
+    return "SUCCESS"
+} catch (Exception e) {
+    println "ERROR: " + e.getMessage()
+    e.printStackTrace()
+    return "ERROR: " + e.getMessage()
+}
+`;
+    const result = await this.executeGroovyScript(script, true); // commit=true to persist the stock level
+    const output = result.output || '';
+    const execResult = String(result.result || '');
+    const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
+    const successMatch = output.match(/SUCCESS: (.+)/);
+    const errorMatch = output.match(/ERROR: (.+)/);
+    return {
+      success,
+      message: success
+        ? successMatch ? successMatch[1] : `Stock for ${productCode} at ${warehouseCode} updated`
+        : errorMatch ? errorMatch[1] : `Failed to update stock: ${output || execResult || 'Unknown error'}`,
+    };
+  }
+
+  async getAvailableToPromise(
+    productCode: string,
+    pointOfService?: string
+  ): Promise<ProductAvailability> {
+    const escapedCode = this.escapeGroovyString(productCode);
+    const escapedPos = pointOfService ? this.escapeGroovyString(pointOfService) : '';
+    const escapedSite = this.escapeGroovyString(this.config.baseSiteId!);
+    const escapedCatalogId = this.escapeGroovyString(this.config.catalogId!);
+    const escapedVersion = this.escapeGroovyString(this.config.catalogVersion!);
+    const script = `
+import groovy.json.JsonOutput
+
+def productService = spring.getBean("productService")
+def catalogVersionService = spring.getBean("catalogVersionService")
+def baseSiteService = spring.getBean("baseSiteService")
+def commerceStockService = spring.getBean("commerceStockService")
+
+def site = baseSiteService.getBaseSiteForUID("${escapedSite}")
+if (site == null || site.stores.isEmpty()) {
+    return JsonOutput.toJson([error: "No base store found for site: ${escapedSite}"])
+}
+def baseStore = site.stores[0]
+
+def product
+try {
+    def catalogVersion = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedVersion}")
+    product = productService.getProductForCode(catalogVersion, "${escapedCode}")
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Product not found: ${escapedCode}"])
+}
+
+def posFilter = "${escapedPos}"
+def pointsOfService = baseStore.pointsOfService.findAll { !posFilter || it.name == posFilter }
+if (posFilter && pointsOfService.isEmpty()) {
+    return JsonOutput.toJson([error: "Point of service not found in base store " + baseStore.uid + ": " + posFilter])
+}
+
+def online = [
+    stockLevel: commerceStockService.getStockLevelForProductAndBaseStore(product, baseStore),
+    stockLevelStatus: commerceStockService.getStockLevelStatusForProductAndBaseStore(product, baseStore)?.code
+]
+
+def perPos = pointsOfService.sort { it.name }.collect { pos ->
+    [
+        pointOfService: pos.name,
+        stockLevel: commerceStockService.getStockLevelForProductAndPointOfService(product, pos),
+        stockLevelStatus: commerceStockService.getStockLevelStatusForProductAndPointOfService(product, pos)?.code
+    ]
+}
+
+return JsonOutput.toJson([productCode: product.code, baseStore: baseStore.uid, online: online, pointsOfService: perPos])
+`;
+    return this.executeGroovyJson<ProductAvailability>(script);
+  }
+
+  // Promotions & Pricing
+
+  async listPromotions(
+    status?: string,
+    from?: Date,
+    to?: Date,
+    maxCount = 200
+  ): Promise<{ promotions: PromotionRuleSummary[]; count: number }> {
+    // A rule matches the date window when its validity interval overlaps [from, to]
+    const escapedStatus = status ? this.escapeGroovyString(status.toUpperCase()) : '';
+    const script = `
+import de.hybris.platform.ruleengineservices.enums.RuleStatus
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+
+def conditions = []
+def params = [:]
+if ("${escapedStatus}") {
+    try {
+        params.status = RuleStatus.valueOf("${escapedStatus}")
+    } catch (IllegalArgumentException e) {
+        return JsonOutput.toJson([error: "Invalid rule status: ${escapedStatus}"])
+    }
+    conditions << "{status} = ?status"
+}
+${to ? `params.to = new Date(${to.getTime()}L)
+conditions << "({startDate} IS NULL OR {startDate} <= ?to)"` : ''}
+${from ? `params.from = new Date(${from.getTime()}L)
+conditions << "({endDate} IS NULL OR {endDate} >= ?from)"` : ''}
+
+def queryText = "SELECT {pk} FROM {PromotionSourceRule}" +
+    (conditions ? " WHERE " + conditions.join(" AND ") : "") +
+    " ORDER BY {priority} DESC, {code}"
+def query = new FlexibleSearchQuery(queryText, params)
+query.setCount(${Math.floor(maxCount)})
+
+def promotions = flexibleSearchService.search(query).result.collect { rule ->
+    [
+        code: rule.code,
+        name: rule.name,
+        status: rule.status?.code,
+        priority: rule.priority,
+        startDate: rule.startDate,
+        endDate: rule.endDate,
+        website: rule.website?.identifier,
+        ruleGroup: rule.ruleGroup?.code
+    ]
+}
+
+return JsonOutput.toJson([promotions: promotions, count: promotions.size()])
+`;
+    return this.executeGroovyJson<{ promotions: PromotionRuleSummary[]; count: number }>(script);
+  }
+
+  async getPromotionDetails(ruleCode: string): Promise<PromotionRuleDetails> {
+    const escapedCode = this.escapeGroovyString(ruleCode);
+    const script = `
+import groovy.json.JsonOutput
+import groovy.json.JsonSlurper
 
-def cacheType = "${escapedType}"
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def rules = flexibleSearchService.search(
+    "SELECT {pk} FROM {PromotionSourceRule} WHERE {code} = ?code",
+    [code: "${escapedCode}"]
+).result
+if (rules.isEmpty()) {
+    return JsonOutput.toJson([error: "Promotion rule not found: ${escapedCode}"])
+}
+def rule = rules[0]
 
-if (cacheType == "all" || cacheType == "") {
-    Registry.getCurrentTenant().getCache().clear()
-    println "All caches cleared"
-    return "SUCCESS"
-} else {
-    // Clear specific cache region if supported
+def parseDefinitions = { text ->
+    if (!text) return []
     try {
-        def cacheController = spring.getBean("cacheController")
-        cacheController.clearCache()
-        println "Cache cleared: " + cacheType
-        return "SUCCESS"
+        return new JsonSlurper().parseText(text)
     } catch (Exception e) {
-        Registry.getCurrentTenant().getCache().clear()
-        println "Cleared all caches (specific cache type not supported)"
-        return "SUCCESS"
+        return text
     }
 }
+
+return JsonOutput.toJson([
+    code: rule.code,
+    name: rule.name,
+    description: rule.description,
+    status: rule.status?.code,
+    priority: rule.priority,
+    startDate: rule.startDate,
+    endDate: rule.endDate,
+    website: rule.website?.identifier,
+    ruleGroup: rule.ruleGroup?.code,
+    messageFired: rule.messageFired,
+    maxAllowedRuns: rule.maxAllowedRuns,
+    stackable: rule.stackable,
+    excludeFromStorefrontDisplay: rule.excludeFromStorefrontDisplay,
+    conditions: parseDefinitions(rule.conditions),
+    actions: parseDefinitions(rule.actions)
+])
 `;
-    const result = await this.executeGroovyScript(script);
-    const output = result.output || '';
-    const execResult = String(result.result || '');
-    const success = output.includes('cleared') || execResult === 'SUCCESS';
+    return this.executeGroovyJson<PromotionRuleDetails>(script);
+  }
+
+  async getPriceRows(productCode: string): Promise<{ productCode: string; priceRows: PriceRowInfo[] }> {
+    const escapedCode = this.escapeGroovyString(productCode);
+    const script = `
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def priceRows = flexibleSearchService.search(
+    "SELECT {pr.pk} FROM {PriceRow AS pr} WHERE {pr.productId} = ?code " +
+    "OR {pr.product} IN ({{SELECT {p.pk} FROM {Product AS p} WHERE {p.code} = ?code}})",
+    [code: "${escapedCode}"]
+).result
+
+def rows = priceRows.collect { pr ->
+    [
+        productCode: pr.product?.code ?: pr.productId,
+        price: pr.price,
+        currency: pr.currency?.isocode,
+        unit: pr.unit?.code,
+        unitFactor: pr.unitFactor,
+        minQuantity: pr.minqtd,
+        net: pr.net,
+        startTime: pr.startTime,
+        endTime: pr.endTime,
+        userPriceGroup: pr.ug?.code,
+        user: pr.user?.uid,
+        catalogVersion: pr.catalogVersion ? pr.catalogVersion.catalog.id + ":" + pr.catalogVersion.version : null,
+        channel: pr.channel?.code,
+        giveAwayPrice: pr.giveAwayPrice
+    ]
+}.sort { a, b -> (a.userPriceGroup ?: "") <=> (b.userPriceGroup ?: "") ?: (a.currency ?: "") <=> (b.currency ?: "") ?: (a.minQuantity ?: 0) <=> (b.minQuantity ?: 0) }
+
+return JsonOutput.toJson([productCode: "${escapedCode}", priceRows: rows])
+`;
+    return this.executeGroovyJson<{ productCode: string; priceRows: PriceRowInfo[] }>(script);
+  }
+
+  async listPriceGroups(): Promise<{ priceGroups: PriceGroupInfo[] }> {
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def enumerationService = spring.getBean("enumerationService")
+
+def priceGroups = enumerationService.getEnumerationValues("UserPriceGroup").collect { ug ->
+    def userGroups = flexibleSearchService.search(
+        "SELECT {pk} FROM {UserGroup} WHERE {userPriceGroup} = ?ug",
+        [ug: ug]
+    ).result*.uid.sort()
+    def countQuery = new FlexibleSearchQuery("SELECT COUNT({pk}) FROM {PriceRow} WHERE {ug} = ?ug", [ug: ug])
+    countQuery.setResultClassList([Integer.class])
+    def priceRowCount = flexibleSearchService.search(countQuery).result[0]
+    [code: ug.code, name: enumerationService.getEnumerationName(ug), userGroups: userGroups, priceRowCount: priceRowCount]
+}
+
+return JsonOutput.toJson([priceGroups: priceGroups])
+`;
+    return this.executeGroovyJson<{ priceGroups: PriceGroupInfo[] }>(script);
+  }
+
+  // Customers & User Groups
+
+  async searchCustomers(
+    query: string,
+    maxCount = 50,
+    maskPersonalData?: boolean
+  ): Promise<{ customers: CustomerSummary[]; count: number }> {
+    // Fragment is matched case-insensitively against uid (usually the email), name and customer ID;
+    // _ and % in it are literal
+    const escapedQuery = this.escapeGroovyString(`%${query.toLowerCase().replace(/[!%_]/g, '!$&')}%`);
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def query = new FlexibleSearchQuery(
+    "SELECT {pk} FROM {Customer} WHERE LOWER({uid}) LIKE ?fragment ESCAPE '!' OR LOWER({name}) LIKE ?fragment ESCAPE '!' " +
+    "OR LOWER({customerID}) LIKE ?fragment ESCAPE '!' ORDER BY {uid}",
+    [fragment: "${escapedQuery}"]
+)
+query.setCount(${Math.floor(maxCount)})
+
+def customers = flexibleSearchService.search(query).result.collect { c ->
+    [
+        uid: c.uid,
+        name: c.name,
+        customerId: c.customerID,
+        type: c.type?.code,
+        loginDisabled: c.loginDisabled ?: false,
+        creationTime: c.creationtime
+    ]
+}
+
+return JsonOutput.toJson([customers: customers, count: customers.size()])
+`;
+    const result = await this.executeGroovyJson<{ customers: CustomerSummary[]; count: number }>(script);
+    if (!this.shouldMaskPersonalData(maskPersonalData)) {
+      return result;
+    }
     return {
-      success,
-      message: success ? 'Cache cleared successfully' : `Failed to clear cache: ${output || execResult || 'Unknown error'}`,
+      ...result,
+      customers: result.customers.map((customer) => ({
+        ...customer,
+        uid: this.maskPersonalValue(customer.uid),
+        name: this.maskPersonalValue(customer.name),
+        customerId: this.maskPersonalValue(customer.customerId),
+      })),
     };
   }
 
-  async getSystemInfo(): Promise<Record<string, unknown>> {
-    // Use Groovy script to get system info
+  async getCustomerDetails(
+    customerUid: string,
+    maskPersonalData?: boolean
+  ): Promise<CustomerDetails> {
+    const escapedUid = this.escapeGroovyString(customerUid);
     const script = `
-import de.hybris.platform.core.Registry
-import de.hybris.platform.util.Config
+import de.hybris.platform.core.model.user.CustomerModel
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
 
-def tenant = Registry.getCurrentTenant()
-def runtime = Runtime.getRuntime()
+def userService = spring.getBean("userService")
+def flexibleSearchService = spring.getBean("flexibleSearchService")
 
-def info = [
-    hybrisVersion: Config.getString("build.version", "unknown"),
-    buildNumber: Config.getString("build.number", "unknown"),
-    tenantId: tenant.getTenantID(),
-    clusterId: Config.getInt("cluster.id", 0),
-    clusterIsland: Config.getInt("cluster.island.id", 0),
-    javaVersion: System.getProperty("java.version"),
-    javaVendor: System.getProperty("java.vendor"),
-    osName: System.getProperty("os.name"),
-    osArch: System.getProperty("os.arch"),
-    maxMemoryMB: (runtime.maxMemory() / 1024 / 1024) as int,
-    totalMemoryMB: (runtime.totalMemory() / 1024 / 1024) as int,
-    freeMemoryMB: (runtime.freeMemory() / 1024 / 1024) as int,
-    availableProcessors: runtime.availableProcessors()
-]
+def customer
+try {
+    customer = userService.getUserForUID("${escapedUid}", CustomerModel.class)
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "Customer not found: ${escapedUid}"])
+}
 
-return groovy.json.JsonOutput.toJson(info)
+def orderCountQuery = new FlexibleSearchQuery("SELECT COUNT({pk}) FROM {Order} WHERE {user} = ?user", [user: customer])
+orderCountQuery.setResultClassList([Integer.class])
+
+def addresses = (customer.addresses ?: []).collect { a ->
+    [
+        firstName: a.firstname,
+        lastName: a.lastname,
+        street: a.streetname,
+        streetNumber: a.streetnumber,
+        postalCode: a.postalcode,
+        town: a.town,
+        country: a.country?.isocode,
+        phone: a.phone1,
+        email: a.email,
+        shippingAddress: a.shippingAddress,
+        billingAddress: a.billingAddress,
+        defaultShipment: customer.defaultShipmentAddress?.pk == a.pk,
+        defaultPayment: customer.defaultPaymentAddress?.pk == a.pk
+    ]
+}
+
+return JsonOutput.toJson([
+    uid: customer.uid,
+    name: customer.name,
+    customerId: customer.customerID,
+    type: customer.type?.code,
+    loginDisabled: customer.loginDisabled ?: false,
+    creationTime: customer.creationtime,
+    site: customer.hasProperty("site") ? customer.site?.uid : null,
+    lastLogin: customer.lastLogin,
+    sessionLanguage: customer.sessionLanguage?.isocode,
+    sessionCurrency: customer.sessionCurrency?.isocode,
+    groups: (customer.groups ?: [])*.uid.sort(),
+    allGroups: userService.getAllUserGroupsForUser(customer)*.uid.sort(),
+    addresses: addresses,
+    orderCount: flexibleSearchService.search(orderCountQuery).result[0]
+])
 `;
-    const result = await this.executeGroovyScript(script);
-    try {
-      // Parse the JSON result - executionResult contains the returned value
-      const jsonStr = String(result.result || '');
-      if (jsonStr && jsonStr.startsWith('{')) {
-        return JSON.parse(jsonStr);
-      }
-      // If result is not JSON, return what we have
-      return {
-        output: result.output,
-        result: result.result,
-      };
-    } catch {
-      return {
-        output: result.output,
-        result: result.result,
-        parseError: 'Failed to parse system info JSON',
-      };
+    const result = await this.executeGroovyJson<CustomerDetails>(script);
+    if (!this.shouldMaskPersonalData(maskPersonalData)) {
+      return result;
     }
+    return {
+      ...result,
+      uid: this.maskPersonalValue(result.uid),
+      name: this.maskPersonalValue(result.name),
+      customerId: this.maskPersonalValue(result.customerId),
+      addresses: result.addresses.map((address) => ({
+        ...address,
+        firstName: this.maskPersonalValue(address.firstName),
+        lastName: this.maskPersonalValue(address.lastName),
+        street: this.maskPersonalValue(address.street),
+        streetNumber: this.maskPersonalValue(address.streetNumber),
+        postalCode: this.maskPersonalValue(address.postalCode),
+        town: this.maskPersonalValue(address.town),
+        phone: this.maskPersonalValue(address.phone),
+        email: this.maskPersonalValue(address.email),
+      })),
+    };
   }
 
-  // Catalog Synchronization
+  async listUserGroups(
+    pattern?: string,
+    maxCount = 100,
+    maxMembers = 50,
+    maskPersonalData?: boolean
+  ): Promise<{ groups: UserGroupInfo[]; count: number }> {
+    const escapedPattern = pattern ? this.escapeGroovyString(this.toLikePattern(pattern).toLowerCase()) : '';
+    const script = `
+import de.hybris.platform.core.model.user.UserGroupModel
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
 
-  async triggerCatalogSync(
-    catalogId: string,
-    sourceVersion: string,
-    targetVersion: string
-  ): Promise<{ success: boolean; message: string }> {
-    // Use Groovy script to trigger catalog sync by creating a properly configured CronJob
-    const escapedCatalogId = this.escapeGroovyString(catalogId);
-    const escapedSource = this.escapeGroovyString(sourceVersion);
-    const escapedTarget = this.escapeGroovyString(targetVersion);
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+def pattern = "${escapedPattern}"
+def query = pattern
+    ? new FlexibleSearchQuery("SELECT {pk} FROM {UserGroup} WHERE LOWER({uid}) LIKE ?pattern ESCAPE '!' ORDER BY {uid}", [pattern: pattern])
+    : new FlexibleSearchQuery("SELECT {pk} FROM {UserGroup} ORDER BY {uid}")
+query.setCount(${Math.floor(maxCount)})
+
+def groups = flexibleSearchService.search(query).result.collect { g ->
+    def members = g.members ?: []
+    def (subGroups, users) = members.split { it instanceof UserGroupModel }
+    [
+        uid: g.uid,
+        name: g.locName ?: g.name,
+        memberCount: users.size(),
+        members: users*.uid.sort().take(${Math.floor(maxMembers)}),
+        subGroups: subGroups*.uid.sort(),
+        superGroups: (g.groups ?: [])*.uid.sort()
+    ]
+}
+
+return JsonOutput.toJson([groups: groups, count: groups.size()])
+`;
+    const result = await this.executeGroovyJson<{ groups: UserGroupInfo[]; count: number }>(script);
+    if (!this.shouldMaskPersonalData(maskPersonalData)) {
+      return result;
+    }
+    return {
+      ...result,
+      groups: result.groups.map((group) => ({
+        ...group,
+        members: group.members.map((member) => this.maskPersonalValue(member)),
+      })),
+    };
+  }
+
+  async getUserGroupsForUser(userUid: string): Promise<{ uid: string; groups: string[]; allGroups: string[] }> {
+    const escapedUid = this.escapeGroovyString(userUid);
     const script = `
-import de.hybris.platform.catalog.model.synchronization.CatalogVersionSyncCronJobModel
-import de.hybris.platform.cronjob.enums.JobLogLevel
+import groovy.json.JsonOutput
 
+def userService = spring.getBean("userService")
+def user
 try {
-    def catalogVersionService = spring.getBean("catalogVersionService")
-    def modelService = spring.getBean("modelService")
-    def cronJobService = spring.getBean("cronJobService")
-    def flexibleSearchService = spring.getBean("flexibleSearchService")
+    user = userService.getUserForUID("${escapedUid}")
+} catch (Exception e) {
+    return JsonOutput.toJson([error: "User not found: ${escapedUid}"])
+}
 
-    def sourceCatalogVersion = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedSource}")
-    def targetCatalogVersion = catalogVersionService.getCatalogVersion("${escapedCatalogId}", "${escapedTarget}")
+return JsonOutput.toJson([
+    uid: user.uid,
+    groups: (user.groups ?: [])*.uid.sort(),
+    allGroups: userService.getAllUserGroupsForUser(user)*.uid.sort()
+])
+`;
+    return this.executeGroovyJson<{ uid: string; groups: string[]; allGroups: string[] }>(script);
+  }
 
-    if (sourceCatalogVersion == null) {
-        println "ERROR: Source catalog version not found: ${escapedCatalogId}:${escapedSource}"
-        return "SOURCE_NOT_FOUND"
+  // Orders
+
+  /**
+   * Look up an order by code without knowing its customer, with entries, consignments and the
+   * business processes started for it.
+   */
+  async getOrderDetails(
+    orderCode: string,
+    maskPersonalData?: boolean
+  ): Promise<OrderDetails> {
+    const escapedCode = this.escapeGroovyString(orderCode);
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+
+// Order snapshots (e.g. from order history) share the code and carry a version ID
+def query = new FlexibleSearchQuery("SELECT {pk} FROM {Order} WHERE {code} = ?code AND {versionID} IS NULL", [code: "${escapedCode}"])
+def orders = flexibleSearchService.search(query).result
+if (!orders) {
+    return JsonOutput.toJson([error: "Order not found: ${escapedCode}"])
+}
+def order = orders[0]
+
+return JsonOutput.toJson([
+    code: order.code,
+    user: order.user?.uid,
+    status: order.status?.code,
+    date: order.date?.toInstant()?.toString(),
+    site: order.site?.uid,
+    store: order.store?.uid,
+    currency: order.currency?.isocode,
+    totalPrice: order.totalPrice,
+    subtotal: order.subtotal,
+    deliveryCost: order.deliveryCost,
+    totalTax: order.totalTax,
+    paymentStatus: order.paymentStatus?.code,
+    deliveryStatus: order.deliveryStatus?.code,
+    deliveryMode: order.deliveryMode?.code,
+    entries: (order.entries ?: []).sort(false) { it.entryNumber }.collect { e ->
+        [entryNumber: e.entryNumber, product: e.product?.code, quantity: e.quantity, basePrice: e.basePrice, totalPrice: e.totalPrice]
+    },
+    consignments: order.hasProperty("consignments") ? (order.consignments ?: []).collect { c ->
+        [code: c.code, status: c.status?.code, warehouse: c.warehouse?.code]
+    } : [],
+    processes: order.hasProperty("orderProcess") ? (order.orderProcess ?: []).collect { p ->
+        [code: p.code, processDefinition: p.processDefinitionName, state: p.state?.code]
+    } : []
+])
+`;
+    const result = await this.executeGroovyJson<OrderDetails>(script);
+    return this.shouldMaskPersonalData(maskPersonalData) ? { ...result, user: this.maskPersonalValue(result.user) } : result;
+  }
+
+  // Business Process Management
+
+  async listBusinessProcesses(
+    state?: string,
+    processDefinition?: string,
+    maxCount = 100
+  ): Promise<{ processes: BusinessProcessSummary[] }> {
+    // Filters are inlined into the query, so only identifier-like values are accepted
+    const conditions: string[] = [];
+    if (state) {
+      if (!/^[A-Z_]+$/.test(state)) {
+        throw new Error(`Invalid process state: ${state}`);
+      }
+      conditions.push(`{ps.code} = '${state}'`);
     }
-    if (targetCatalogVersion == null) {
-        println "ERROR: Target catalog version not found: ${escapedCatalogId}:${escapedTarget}"
-        return "TARGET_NOT_FOUND"
+    if (processDefinition) {
+      if (!/^[\w.-]+$/.test(processDefinition)) {
+        throw new Error(`Invalid process definition name: ${processDefinition}`);
+      }
+      conditions.push(`{bp.processDefinitionName} = '${processDefinition}'`);
     }
 
-    // Find sync job using flexible search
-    def query = "SELECT {pk} FROM {CatalogVersionSyncJob} WHERE {sourceVersion} = ?source AND {targetVersion} = ?target"
-    def params = [source: sourceCatalogVersion, target: targetCatalogVersion]
-    def searchResult = flexibleSearchService.search(query, params)
+    const query =
+      'SELECT {bp.code}, {bp.processDefinitionName}, {ps.code}, {bp.endMessage}, {bp.creationtime}, {bp.modifiedtime} ' +
+      'FROM {BusinessProcess AS bp LEFT JOIN ProcessState AS ps ON {bp.state} = {ps.pk}}' +
+      (conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '') +
+      ' ORDER BY {bp.modifiedtime} DESC';
 
-    if (searchResult.result.isEmpty()) {
-        println "ERROR: No sync job found for ${escapedCatalogId} ${escapedSource} -> ${escapedTarget}"
-        println "Available sync jobs:"
-        def allJobs = flexibleSearchService.search("SELECT {pk}, {code} FROM {CatalogVersionSyncJob}").result
-        allJobs.each { job -> println "  - " + job.code }
-        return "SYNC_JOB_NOT_FOUND"
-    }
+    const result = await this.executeFlexibleSearch(query, { limit: maxCount });
+    const rows = this.mapFlexSearchRows(result, [
+      'code', 'processDefinitionName', 'state', 'endMessage', 'creationTime', 'modifiedTime',
+    ] as const);
 
-    def syncJob = searchResult.result[0]
-    println "Found sync job: " + syncJob.code
+    return {
+      processes: rows.map((row) => ({
+        code: row.code || '',
+        processDefinitionName: row.processDefinitionName || '',
+        state: row.state || '',
+        endMessage: row.endMessage ?? undefined,
+        creationTime: row.creationTime || '',
+        modifiedTime: row.modifiedTime || '',
+      })),
+    };
+  }
 
-    // Create a new CronJob with all mandatory attributes
-    def syncCronJob = modelService.create(CatalogVersionSyncCronJobModel.class)
-    syncCronJob.setJob(syncJob)
-    syncCronJob.setCode("mcp_sync_" + System.currentTimeMillis())
+  async getProcessDetails(processCode: string): Promise<BusinessProcessDetails> {
+    const escapedCode = this.escapeGroovyString(processCode);
+    const script = `
+import groovy.json.JsonOutput
 
-    // Set all mandatory attributes
-    syncCronJob.setCreateSavedValues(false)
-    syncCronJob.setForceUpdate(false)
-    syncCronJob.setLogToDatabase(false)
-    syncCronJob.setLogToFile(false)
-    syncCronJob.setLogLevelDatabase(JobLogLevel.WARNING)
-    syncCronJob.setLogLevelFile(JobLogLevel.WARNING)
+def businessProcessService = spring.getBean("businessProcessService")
+def process = businessProcessService.getProcess("${escapedCode}")
+if (process == null) {
+    return JsonOutput.toJson([error: "Business process not found: ${escapedCode}"])
+}
 
-    modelService.save(syncCronJob)
-    println "Created sync cronjob: " + syncCronJob.code
+def order = process.hasProperty("order") ? process.order : null
+def consignment = process.hasProperty("consignment") ? process.consignment : null
 
-    // Trigger the cronjob
-    cronJobService.performCronJob(syncCronJob, true)
+def details = [
+    code: process.code,
+    type: process.itemtype,
+    processDefinitionName: process.processDefinitionName,
+    state: process.state?.code,
+    endMessage: process.endMessage,
+    creationTime: process.creationtime,
+    modifiedTime: process.modifiedtime,
+    order: order ? [code: order.code, status: order.status?.code, user: order.user?.uid] : null,
+    consignment: consignment ? [code: consignment.code, status: consignment.status?.code] : null,
+    currentTasks: process.currentTasks.collect { task ->
+        [
+            action: task.action,
+            runnerBean: task.runnerBean,
+            executionDate: task.executionDate,
+            retry: task.retry
+        ]
+    },
+    taskLogs: (process.taskLogs ?: []).sort(false) { it.startDate }.collect { log ->
+        [
+            action: log.actionId,
+            returnCode: log.returnCode,
+            startDate: log.startDate,
+            endDate: log.endDate,
+            logMessages: log.logMessages,
+            clusterId: log.clusterId
+        ]
+    },
+    contextParameters: process.contextParameters.collect { param ->
+        [name: param.name, value: String.valueOf(param.value)]
+    }
+]
 
-    println "SUCCESS: Catalog sync triggered: ${escapedCatalogId} ${escapedSource} -> ${escapedTarget}"
+return JsonOutput.toJson(details)
+`;
+    return this.executeGroovyJson<BusinessProcessDetails>(script);
+  }
+
+  async restartProcess(processCode: string, action: string): Promise<{ success: boolean; message: string }> {
+    const escapedCode = this.escapeGroovyString(processCode);
+    const escapedAction = this.escapeGroovyString(action);
+    const script = `
+import de.hybris.platform.processengine.enums.ProcessState
+
+try {
+    def businessProcessService = spring.getBean("businessProcessService")
+    def process = businessProcessService.getProcess("${escapedCode}")
+    if (process == null) {
+        println "ERROR: Business process not found: ${escapedCode}"
+        return "NOT_FOUND"
+    }
+    if (process.state == ProcessState.RUNNING) {
+        println "ERROR: Business process is still running: ${escapedCode}"
+        return "RUNNING"
+    }
+
+    businessProcessService.restartProcess(process, "${escapedAction}")
+    println "SUCCESS: Business process ${escapedCode} restarted from action ${escapedAction}"
     return "SUCCESS"
 } catch (Exception e) {
     println "ERROR: " + e.getMessage()
@@ -832,7 +4971,7 @@ try {
     return "ERROR: " + e.getMessage()
 }
 `;
-    const result = await this.executeGroovyScript(script);
+    const result = await this.executeGroovyScript(script, true); // commit=true so the restart is persisted
     const output = result.output || '';
     const execResult = String(result.result || '');
     const success = output.includes('SUCCESS:') || execResult === 'SUCCESS';
@@ -840,9 +4979,221 @@ try {
     return {
       success,
       message: success
-        ? `Catalog sync triggered: ${catalogId} ${sourceVersion} -> ${targetVersion}`
-        : errorMatch ? errorMatch[1] : `Failed to sync: ${output || execResult || 'Unknown error'}`,
+        ? `Business process ${processCode} restarted from action ${action}`
+        : errorMatch ? errorMatch[1] : `Failed to restart process: ${output || execResult || 'Unknown error'}`,
+    };
+  }
+
+  // Type System Introspection
+
+  async getTypeDefinition(typeCode: string): Promise<TypeDefinition> {
+    const escapedCode = this.escapeGroovyString(typeCode);
+    const script = `
+import de.hybris.platform.core.model.type.CollectionTypeModel
+import de.hybris.platform.core.model.type.RelationDescriptorModel
+import de.hybris.platform.servicelayer.exceptions.UnknownIdentifierException
+import groovy.json.JsonOutput
+
+def typeService = spring.getBean("typeService")
+
+def type
+try {
+    type = typeService.getComposedTypeForCode("${escapedCode}")
+} catch (UnknownIdentifierException e) {
+    return JsonOutput.toJson([error: "Type not found: ${escapedCode}"])
+}
+
+def elementTypeCode = { attrType ->
+    attrType instanceof CollectionTypeModel ? attrType.elementType?.code : attrType?.code
+}
+
+def cardinalityOf = { ad ->
+    ad?.attributeType instanceof CollectionTypeModel ? "many" : "one"
+}
+
+def persistenceOf = { ad ->
+    if (ad instanceof RelationDescriptorModel) return "relation"
+    if (ad.attributeHandler) return "dynamic"
+    return ad.property ? "property" : "jalo"
+}
+
+def describeAttribute = { ad ->
+    [
+        qualifier: ad.qualifier,
+        type: ad.attributeType?.code,
+        declaringType: ad.declaringEnclosingType?.code ?: ad.enclosingType?.code,
+        optional: ad.optional,
+        unique: ad.unique,
+        localized: ad.localized,
+        partOf: ad.partOf,
+        readable: ad.readable,
+        writable: ad.writable,
+        initial: ad.initial,
+        search: ad.search,
+        persistence: persistenceOf(ad),
+        databaseColumn: ad.databaseColumn,
+        description: ad.description
+    ]
+}
+
+def describeRelation = { rd ->
+    def relationType = rd.relationType
+    def otherEnd = [relationType?.sourceAttribute, relationType?.targetAttribute].find { it != null && it.pk != rd.pk }
+    [
+        relation: relationType?.code ?: rd.relationName,
+        qualifier: rd.qualifier,
+        cardinality: cardinalityOf(rd),
+        targetType: elementTypeCode(rd.attributeType),
+        otherEnd: otherEnd ? [
+            qualifier: otherEnd.qualifier,
+            type: otherEnd.enclosingType?.code,
+            cardinality: cardinalityOf(otherEnd)
+        ] : null
+    ]
+}
+
+def supertypes = []
+def current = type.superType
+while (current != null) {
+    supertypes << current.code
+    current = current.superType
+}
+
+def declaredQualifiers = type.declaredattributedescriptors*.qualifier as Set
+def allAttributes = typeService.getAttributeDescriptorsForType(type).sort { it.qualifier }
+
+def definition = [
+    code: type.code,
+    name: type.name,
+    description: type.description,
+    "abstract": type.getAbstract() ?: false,
+    jaloClass: type.jaloclass?.name,
+    catalogItemType: type.catalogItemType,
+    supertypes: supertypes,
+    subtypes: (type.subtypes*.code ?: []).sort(),
+    declaredAttributes: allAttributes.findAll { declaredQualifiers.contains(it.qualifier) }.collect(describeAttribute),
+    inheritedAttributes: allAttributes.findAll { !declaredQualifiers.contains(it.qualifier) }.collect(describeAttribute),
+    relations: allAttributes.findAll { it instanceof RelationDescriptorModel }.collect(describeRelation)
+]
+
+return JsonOutput.toJson(definition)
+`;
+    return this.executeGroovyJson<TypeDefinition>(script);
+  }
+
+  async getTypeAttributes(
+    typeCode: string,
+    includeInherited = true
+  ): Promise<{ typeCode: string; attributes: TypeAttribute[] }> {
+    const definition = await this.getTypeDefinition(typeCode);
+    return {
+      typeCode: definition.code,
+      attributes: includeInherited
+        ? [...definition.declaredAttributes, ...definition.inheritedAttributes]
+        : definition.declaredAttributes,
+    };
+  }
+
+  async getTypeRelations(typeCode: string): Promise<{ typeCode: string; relations: TypeRelation[] }> {
+    const definition = await this.getTypeDefinition(typeCode);
+    return {
+      typeCode: definition.code,
+      relations: definition.relations,
+    };
+  }
+
+  async listTypes(pattern: string, maxCount = 200): Promise<{ types: TypeSummary[]; count: number }> {
+    const escapedPattern = this.escapeGroovyString(this.toLikePattern(pattern).toLowerCase());
+    const script = `
+import de.hybris.platform.servicelayer.search.FlexibleSearchQuery
+import groovy.json.JsonOutput
+
+def flexibleSearchService = spring.getBean("flexibleSearchService")
+
+def query = new FlexibleSearchQuery(
+    "SELECT {pk} FROM {ComposedType} WHERE LOWER({code}) LIKE ?pattern ESCAPE '!' ORDER BY {code}",
+    [pattern: "${escapedPattern}"]
+)
+query.setCount(${Math.floor(maxCount)})
+
+def types = flexibleSearchService.search(query).result.collect { type ->
+    [
+        code: type.code,
+        kind: type.itemtype,
+        supertype: type.superType?.code,
+        "abstract": type.getAbstract() ?: false
+    ]
+}
+
+return JsonOutput.toJson([types: types, count: types.size()])
+`;
+    return this.executeGroovyJson<{ types: TypeSummary[]; count: number }>(script);
+  }
+
+  /**
+   * Any item by PK with the values of its readable attributes. Localized attributes are shown in
+   * the session language. Password and other credential attributes are left out, and personal
+   * attributes are masked when masking is on.
+   */
+  async getItem(pk: string): Promise<ItemDetails> {
+    if (!/^\d+$/.test(pk)) {
+      throw new Error('pk must be a numeric PK');
+    }
+    const script = `
+import de.hybris.platform.core.PK
+import de.hybris.platform.core.model.ItemModel
+import de.hybris.platform.core.model.user.AddressModel
+import de.hybris.platform.core.model.user.UserModel
+import groovy.json.JsonOutput
+
+def modelService = spring.getBean("modelService")
+def typeService = spring.getBean("typeService")
+${HybrisClient.ITEM_VALUE_RENDERER}
+def item = null
+try {
+    item = modelService.get(PK.parse("${pk}"))
+} catch (Exception ignored) {
+}
+if (!(item instanceof ItemModel)) {
+    return JsonOutput.toJson([error: "Item not found: ${pk}"])
+}
+
+def attributes = new TreeMap()
+typeService.getAttributeDescriptorsForType(typeService.getComposedTypeForCode(item.itemtype)).findAll {
+    it.readable && !(it.qualifier ==~ /(?i).*(password|passwd|secret|token|credential|salt).*/)
+}.each { ad ->
+    try {
+        attributes[ad.qualifier] = renderValue(modelService.getAttributeValue(item, ad.qualifier))
+    } catch (Exception e) {
+        attributes[ad.qualifier] = "<unreadable: " + e.getMessage() + ">"
+    }
+}
+
+return JsonOutput.toJson([
+    pk: item.pk.toString(),
+    type: item.itemtype,
+    attributes: attributes,
+    personal: item instanceof UserModel || item instanceof AddressModel
+])
+`;
+    const { personal, ...item } = await this.executeGroovyJson<ItemDetails & { personal: boolean }>(script);
+    if (!this.config.maskPersonalData) {
+      return item;
+    }
+
+    const mask = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(mask);
+      return value === null || value === undefined ? value : this.maskPersonalValue(String(value));
     };
+    const attributes = Object.fromEntries(
+      Object.entries(item.attributes).map(([qualifier, value]) => {
+        const name = qualifier.toLowerCase();
+        const isPersonal = HybrisClient.PERSONAL_ATTRIBUTES.has(name) ||
+          (personal && HybrisClient.PERSONAL_ITEM_ATTRIBUTES.has(name));
+        return [qualifier, isPersonal ? mask(value) : value];
+      })
+    );
+    return { ...item, attributes };
   }
 
   // Health check - uses OCC API since HAC may not be deployed
@@ -854,6 +5205,7 @@ try {
         healthy: true,
         details: {
           baseSiteId: this.config.baseSiteId,
+          occAuth: this.config.oauth ? `oauth2 (${this.config.oauth.grantType})` : 'basic',
           totalProducts: result.pagination?.totalResults ?? 'unknown',
         },
       };
@@ -7,10 +7,22 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { HybrisClient, HybrisConfig } from './hybris-client.js';
+import { FlexibleSearchParam } from './hybris-client.js';
+import { EnvironmentRegistry } from './environments.js';
+import { evaluatePolicy, isToolAvailable, classifyTool, restrictMode, PolicyMode } from './policy.js';
+import { ConfirmationStore } from './confirmations.js';
+import { RESOURCE_TEMPLATES, listResources, readResource } from './resources.js';
+import { PROMPT_LIST, getPrompt } from './prompts.js';
+import { HttpServerOptions, readHttpOptions, startHttpServer } from './http-server.js';
+import { LocalFileSet, readFileRoot, readLocalFiles } from './local-files.js';
 
 // Read version from package.json
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -45,13 +57,16 @@ function validateString(
 function validateNumber(
   args: Record<string, unknown> | undefined,
   key: string,
-  opts?: { min?: number; max?: number }
+  opts?: { min?: number; max?: number; integer?: boolean }
 ): number | undefined {
   const value = args?.[key];
   if (value === undefined || value === null) return undefined;
   if (typeof value !== 'number') {
     throw new Error(`${key} must be a number`);
   }
+  if (opts?.integer && !Number.isInteger(value)) {
+    throw new Error(`${key} must be an integer`);
+  }
   if (opts?.min !== undefined && value < opts.min) {
     throw new Error(`${key} must be at least ${opts.min}`);
   }
@@ -74,31 +89,82 @@ function validateBoolean(
   return value;
 }
 
-// Load configuration from environment variables
-function getConfig(): HybrisConfig {
-  const baseUrl = process.env.HYBRIS_BASE_URL;
-  const username = process.env.HYBRIS_USERNAME;
-  const password = process.env.HYBRIS_PASSWORD;
-
-  if (!baseUrl || !username || !password) {
-    console.error('Missing required environment variables:');
-    console.error('  HYBRIS_BASE_URL - Base URL of your Hybris instance (e.g., https://localhost:9002)');
-    console.error('  HYBRIS_USERNAME - Admin username');
-    console.error('  HYBRIS_PASSWORD - Admin password');
-    process.exit(1);
+function validateOptionalBoolean(
+  args: Record<string, unknown> | undefined,
+  key: string
+): boolean | undefined {
+  const value = args?.[key];
+  if (value === undefined || value === null) return undefined;
+  return validateBoolean(args, key);
+}
+
+function validateStringArray(
+  args: Record<string, unknown> | undefined,
+  key: string
+): string[] | undefined {
+  const value = args?.[key];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${key} must be an array of strings`);
+  }
+  return value as string[];
+}
+
+function validateDate(
+  args: Record<string, unknown> | undefined,
+  key: string
+): Date | undefined {
+  const value = validateString(args, key, false);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${key} must be an ISO-8601 date/time`);
+  }
+  return date;
+}
+
+function validateRecord(
+  args: Record<string, unknown> | undefined,
+  key: string
+): Record<string, unknown> | undefined {
+  const value = args?.[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${key} must be an object`);
   }
+  return value as Record<string, unknown>;
+}
 
+function validateWaitOptions(args: Record<string, unknown> | undefined): { wait: boolean; timeoutSeconds?: number } {
   return {
-    baseUrl,
-    username,
-    password,
-    baseSiteId: process.env.HYBRIS_BASE_SITE_ID || 'electronics',
-    catalogId: process.env.HYBRIS_CATALOG_ID || 'electronicsProductCatalog',
-    catalogVersion: process.env.HYBRIS_CATALOG_VERSION || 'Online',
-    hacPath: process.env.HYBRIS_HAC_PATH || '/hac',
+    wait: validateBoolean(args, 'wait', false),
+    timeoutSeconds: validateNumber(args, 'timeoutSeconds', { min: 1, max: 3600 }),
   };
 }
 
+// Exactly one of the given arguments must be present; returns its key
+function validateOneOf(args: Record<string, unknown> | undefined, keys: string[]): string {
+  const present = keys.filter((key) => args?.[key] !== undefined && args?.[key] !== null);
+  if (present.length !== 1) {
+    throw new Error(`Provide exactly one of: ${keys.join(', ')}`);
+  }
+  return present[0];
+}
+
+function validateEnum<T extends string>(
+  args: Record<string, unknown> | undefined,
+  key: string,
+  allowed: readonly T[],
+  defaultValue: T
+): T {
+  const value = args?.[key];
+  if (value === undefined || value === null) return defaultValue;
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`${key} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
 // Define all available tools
 const tools: Tool[] = [
   {
@@ -167,7 +233,7 @@ const tools: Tool[] = [
       properties: {
         userId: {
           type: 'string',
-          description: 'User ID or email',
+          description: 'User ID or email, or "current" for the customer configured for OAuth',
         },
       },
       required: ['userId'],
@@ -181,7 +247,7 @@ const tools: Tool[] = [
       properties: {
         userId: {
           type: 'string',
-          description: 'User ID or email',
+          description: 'User ID or email, or "current" for the customer configured for OAuth',
         },
         orderCode: {
           type: 'string',
@@ -193,7 +259,7 @@ const tools: Tool[] = [
   },
   {
     name: 'flexible_search',
-    description: 'Execute a FlexibleSearch query against the Hybris database. Use FlexibleSearch syntax.',
+    description: 'Execute a FlexibleSearch query against the Hybris database. Use FlexibleSearch syntax. Returns rows keyed by column name with column types, total count and a cursor for the next page.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -201,9 +267,56 @@ const tools: Tool[] = [
           type: 'string',
           description: 'FlexibleSearch query (e.g., "SELECT {pk}, {code} FROM {Product}")',
         },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of rows per page (default: 100, max: 10000)',
+        },
+        offset: {
+          type: 'number',
+          description: 'Number of rows to skip (default: 0)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from a previous page of the same query; overrides offset and limit',
+        },
         maxCount: {
           type: 'number',
-          description: 'Maximum number of results (default: 100)',
+          description: 'Alias for limit, kept for compatibility',
+        },
+        params: {
+          type: 'object',
+          description:
+            'Bind values for ?name placeholders. Strings, numbers and booleans bind as-is; use ' +
+            '{"type": "date"|"pk"|"catalogVersion", "value": ...} for dates (ISO-8601), item PKs and ' +
+            'catalog versions (e.g., {"type": "catalogVersion", "value": "electronicsProductCatalog:Online"})',
+          additionalProperties: {
+            oneOf: [
+              { type: 'string' },
+              { type: 'number' },
+              { type: 'boolean' },
+              {
+                type: 'object',
+                properties: {
+                  type: {
+                    type: 'string',
+                    enum: ['string', 'number', 'boolean', 'date', 'pk', 'catalogVersion'],
+                  },
+                  value: {
+                    type: ['string', 'number', 'boolean'],
+                  },
+                },
+                required: ['type', 'value'],
+              },
+            ],
+          },
+        },
+        user: {
+          type: 'string',
+          description: 'Run the query in this user\'s session, applying their search restrictions (default: the HAC user)',
+        },
+        language: {
+          type: 'string',
+          description: 'Session language isocode for localized attributes without [lang] (e.g., "de")',
         },
       },
       required: ['query'],
@@ -219,17 +332,20 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Groovy script to execute',
         },
+        path: {
+          type: 'string',
+          description: 'Local .groovy file, or directory inside the file root (HYBRIS_MCP_FILE_ROOT) whose .groovy files run in path order, stopping at the first failure (instead of script)',
+        },
         commit: {
           type: 'boolean',
           description: 'Whether to commit database changes (default: false)',
         },
       },
-      required: ['script'],
     },
   },
   {
     name: 'import_impex',
-    description: 'Import data using ImpEx format',
+    description: 'Import data using ImpEx format. Returns a per-line report; use validateOnly to resolve headers and references without persisting anything.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -237,19 +353,70 @@ const tools: Tool[] = [
           type: 'string',
           description: 'ImpEx content to import',
         },
+        path: {
+          type: 'string',
+          description: 'Local .impex file, or directory inside the file root (HYBRIS_MCP_FILE_ROOT) whose .impex files import in path order, stopping at the first failure; other files in the directory are uploaded as media and available as $mediaDir (instead of impexContent)',
+        },
+        validateOnly: {
+          type: 'boolean',
+          description: 'Validate only: run the import in a transaction that is rolled back (default: false)',
+        },
+        enableCodeExecution: {
+          type: 'boolean',
+          description: 'Allow BeanShell/Groovy code in the ImpEx (#% lines) (default: false)',
+        },
+        legacyMode: {
+          type: 'boolean',
+          description: 'Use the legacy (Jalo) import mode (default: server setting)',
+        },
+        maxThreads: {
+          type: 'number',
+          description: 'Maximum number of import worker threads (default: server setting; always 1 when validating)',
+        },
+        locale: {
+          type: 'string',
+          description: 'Locale for parsing dates and numbers (e.g., "de_DE")',
+        },
+        errorsOnly: {
+          type: 'boolean',
+          description: 'Only report failed lines (default: false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'preview_impex_changes',
+    description: 'Preview what ImpEx content would change without importing it: for each line, whether it would create, update (with before/after values per attribute) or remove an item, with totals per type',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        impexContent: {
+          type: 'string',
+          description: 'ImpEx content to preview',
+        },
       },
       required: ['impexContent'],
     },
   },
   {
     name: 'export_impex',
-    description: 'Export data to ImpEx format using a FlexibleSearch query',
+    description: 'Export items to re-importable ImpEx using a FlexibleSearch query. Emits one INSERT_UPDATE block per type, keyed by unique attributes, with localized [lang=xx] columns and references such as catalogVersion(catalog(id),version).',
     inputSchema: {
       type: 'object',
       properties: {
         flexQuery: {
           type: 'string',
-          description: 'FlexibleSearch query for data to export',
+          description: 'FlexibleSearch query selecting the items to export (e.g., "SELECT {pk} FROM {Product}")',
+        },
+        attributes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Attribute qualifiers to export in addition to the unique keys (default: all writable non-system attributes)',
+        },
+        languages: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Language isocodes for localized columns (default: all active languages)',
         },
       },
       required: ['flexQuery'],
@@ -257,15 +424,142 @@ const tools: Tool[] = [
   },
   {
     name: 'get_cronjobs',
-    description: 'List all cron jobs and their status',
+    description: 'List cron jobs with job type, status, result, node, last start/end times and triggers (as cron expressions), optionally filtered',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        code: {
+          type: 'string',
+          description: 'Cron job code filter (substring, or pattern with * and ? wildcards)',
+        },
+        status: {
+          type: 'string',
+          description: 'Filter by status (e.g., RUNNING, FINISHED, ABORTED, PAUSED, UNKNOWN)',
+        },
+        result: {
+          type: 'string',
+          description: 'Filter by result of the last run (e.g., SUCCESS, FAILURE, ERROR, UNKNOWN)',
+        },
+        jobType: {
+          type: 'string',
+          description: 'Filter by job type, including subtypes (e.g., CatalogVersionSyncJob, ServicelayerJob)',
+        },
+        nodeId: {
+          type: 'number',
+          description: 'Filter by cluster node ID the cron job runs on',
+        },
+        active: {
+          type: 'boolean',
+          description: 'Filter by enabled (true) or disabled (false) cron jobs',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of cron jobs to return (default: 200, max: 1000)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_cronjob_history',
+    description: 'Get the run history of a cron job, newest first: start/end times, status, result, node and the log entries written during each run',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cronJob: {
+          type: 'string',
+          description: 'Cron job code or PK',
+        },
+        maxRuns: {
+          type: 'number',
+          description: 'Maximum number of runs to return (default: 10, max: 100)',
+        },
+        logEntries: {
+          type: 'number',
+          description: 'Maximum number of log entries per run (default: 20, max: 200)',
+        },
+      },
+      required: ['cronJob'],
+    },
+  },
+  {
+    name: 'abort_cronjob',
+    description: 'Request a running cron job to abort. Only cron jobs whose job supports aborting can be stopped.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cronJob: {
+          type: 'string',
+          description: 'Cron job code or PK',
+        },
+      },
+      required: ['cronJob'],
+    },
+  },
+  {
+    name: 'set_cronjob_active',
+    description: 'Enable or disable a cron job. Triggers do not start disabled cron jobs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cronJob: {
+          type: 'string',
+          description: 'Cron job code or PK',
+        },
+        active: {
+          type: 'boolean',
+          description: 'true to enable, false to disable',
+        },
+      },
+      required: ['cronJob', 'active'],
+    },
+  },
+  {
+    name: 'create_trigger',
+    description: 'Schedule a cron job by creating a trigger with a cron expression',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cronJob: {
+          type: 'string',
+          description: 'Cron job code or PK',
+        },
+        cronExpression: {
+          type: 'string',
+          description: 'Cron expression in Quartz syntax: seconds minutes hours day-of-month month day-of-week (e.g., "0 0 2 * * ?" for daily at 02:00)',
+        },
+        active: {
+          type: 'boolean',
+          description: 'Whether the trigger is active (default: true)',
+        },
+      },
+      required: ['cronJob', 'cronExpression'],
+    },
+  },
+  {
+    name: 'update_trigger',
+    description: 'Change the cron expression or active flag of an existing trigger (PKs are listed by get_cronjobs)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        triggerPk: {
+          type: 'string',
+          description: 'PK of the trigger',
+        },
+        cronExpression: {
+          type: 'string',
+          description: 'New cron expression in Quartz syntax',
+        },
+        active: {
+          type: 'boolean',
+          description: 'Activate (true) or deactivate (false) the trigger',
+        },
+      },
+      required: ['triggerPk'],
     },
   },
   {
     name: 'trigger_cronjob',
-    description: 'Trigger a cron job to run',
+    description: 'Trigger a cron job to run. Returns a handle (code and PK) for get_cronjob_status, or the final status in wait mode.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -273,10 +567,44 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Code of the cron job to trigger',
         },
+        wait: {
+          type: 'boolean',
+          description: 'Wait until the cron job is FINISHED or ABORTED and report its final status (default: false)',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          description: 'Maximum time to wait in seconds (default: 300, max: 3600)',
+        },
       },
       required: ['cronJobCode'],
     },
   },
+  {
+    name: 'get_cronjob_status',
+    description: 'Get the status of a cron job: status, result, start/end times, duration and the last log lines. Optionally wait for it to finish.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cronJob: {
+          type: 'string',
+          description: 'Cron job code or PK (as returned by trigger tools)',
+        },
+        logLines: {
+          type: 'number',
+          description: 'Number of log lines to include (default: 20, max: 500)',
+        },
+        wait: {
+          type: 'boolean',
+          description: 'Wait until the cron job is FINISHED or ABORTED and report its final status (default: false)',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          description: 'Maximum time to wait in seconds (default: 300, max: 3600)',
+        },
+      },
+      required: ['cronJob'],
+    },
+  },
   {
     name: 'clear_cache',
     description: 'Clear the Hybris cache',
@@ -300,7 +628,7 @@ const tools: Tool[] = [
   },
   {
     name: 'trigger_catalog_sync',
-    description: 'Trigger a catalog synchronization between versions',
+    description: 'Trigger a catalog synchronization between versions. Returns a handle for get_cronjob_status, or the final status in wait mode.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -316,66 +644,878 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Target catalog version (e.g., "Online")',
         },
+        wait: {
+          type: 'boolean',
+          description: 'Wait until the cron job is FINISHED or ABORTED and report its final status (default: false)',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          description: 'Maximum time to wait in seconds (default: 300, max: 3600)',
+        },
       },
       required: ['catalogId', 'sourceVersion', 'targetVersion'],
     },
   },
   {
-    name: 'health_check',
-    description: 'Check if the Hybris instance is healthy and reachable',
+    name: 'compare_catalog_versions',
+    description: 'Compare two versions of a product or content catalog before syncing: items missing on either side, items modified after their target copy, chosen attribute differences and counts per type',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalogId: {
+          type: 'string',
+          description: 'Catalog ID (e.g., "electronicsProductCatalog" or "electronicsContentCatalog")',
+        },
+        sourceVersion: {
+          type: 'string',
+          description: 'Source catalog version (default: "Staged")',
+        },
+        targetVersion: {
+          type: 'string',
+          description: 'Target catalog version (default: "Online")',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Type codes to compare (default: root types of the sync job between the versions)',
+        },
+        attributes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Attribute qualifiers whose values should be compared (optional)',
+        },
+        maxItems: {
+          type: 'number',
+          description: 'Maximum items loaded per type and version (default: 5000); missing items are only listed when no version exceeds it',
+        },
+        maxDifferences: {
+          type: 'number',
+          description: 'Maximum differences listed per category (default: 100)',
+        },
+      },
+      required: ['catalogId'],
+    },
+  },
+  {
+    name: 'list_solr_indexes',
+    description: 'List Solr facet search configs with their catalog versions, indexed types and indexed properties',
     inputSchema: {
       type: 'object',
       properties: {},
     },
   },
-];
-
-async function main() {
-  const config = getConfig();
-  const hybrisClient = new HybrisClient(config);
-
-  const server = new Server(
-    {
-      name: 'hybris-mcp',
-      version: pkg.version,
+  {
+    name: 'get_index_status',
+    description: 'Get the last full and update indexer cron job runs (status, result, timing) per facet search config',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        facetSearchConfig: {
+          type: 'string',
+          description: 'Facet search config name (optional, all configs if not specified)',
+        },
+      },
     },
-    {
-      capabilities: {
-        tools: {},
+  },
+  {
+    name: 'trigger_solr_indexing',
+    description: 'Trigger full or update Solr indexing for a facet search config',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        facetSearchConfig: {
+          type: 'string',
+          description: 'Facet search config name (e.g., "electronicsIndex")',
+        },
+        operation: {
+          type: 'string',
+          enum: ['full', 'update'],
+          description: 'Indexing operation (default: update)',
+        },
+        wait: {
+          type: 'boolean',
+          description: 'Wait until the cron job is FINISHED or ABORTED and report its final status (default: false)',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          description: 'Maximum time to wait in seconds (default: 300, max: 3600)',
+        },
       },
-    }
-  );
-
-  // Graceful shutdown handlers
-  const shutdown = async () => {
-    console.error('Shutting down Hybris MCP server...');
-    await server.close();
-    process.exit(0);
-  };
-  process.on('SIGINT', shutdown);
-  process.on('SIGTERM', shutdown);
-
-  // Handle list tools request
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools };
-  });
-
-  // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      let result: unknown;
-
-      switch (name) {
-        case 'search_products':
-          result = await hybrisClient.searchProducts(
-            validateString(args, 'query', true),
-            validateNumber(args, 'pageSize', { min: 1, max: 100 }),
-            validateNumber(args, 'currentPage', { min: 0 })
-          );
-          break;
-
+      required: ['facetSearchConfig'],
+    },
+  },
+  {
+    name: 'get_indexed_properties',
+    description: 'List indexed properties of a facet search config with their types, flags and value providers',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        facetSearchConfig: {
+          type: 'string',
+          description: 'Facet search config name',
+        },
+        indexedType: {
+          type: 'string',
+          description: 'Indexed type identifier or type code to filter by (optional)',
+        },
+      },
+      required: ['facetSearchConfig'],
+    },
+  },
+  {
+    name: 'get_property',
+    description: 'Get the value of a Hybris configuration property (secret-looking values are masked)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: {
+          type: 'string',
+          description: 'Property key (e.g., "cronjob.timertask.loadonstartup")',
+        },
+      },
+      required: ['key'],
+    },
+  },
+  {
+    name: 'search_properties',
+    description: 'Search configuration properties by regex over keys and values (secret-looking values are masked)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Case-insensitive Java regex (e.g., "solr" or "^mail\\.smtp\\.")',
+        },
+        searchValues: {
+          type: 'boolean',
+          description: 'Also match against property values (default: true)',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of properties to return (default: 200)',
+        },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: 'get_extensions',
+    description: 'List loaded extensions in build order with their paths and required extensions',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_log_files',
+    description: 'List log files in the platform log directory, most recently modified first',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'tail_log',
+    description: 'Get the last N lines of a log file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Log file path relative to the log directory (default: most recently modified log)',
+        },
+        lines: {
+          type: 'number',
+          description: 'Number of lines to return (default: 100)',
+        },
+      },
+    },
+  },
+  {
+    name: 'search_logs',
+    description: 'Search log entries by regex, minimum level and time window. Stack trace lines are kept with their entry',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Case-insensitive Java regex matched against the whole entry (optional)',
+        },
+        level: {
+          type: 'string',
+          enum: ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'],
+          description: 'Minimum log level (optional)',
+        },
+        since: {
+          type: 'string',
+          description: 'Only entries at or after this ISO-8601 time (optional)',
+        },
+        until: {
+          type: 'string',
+          description: 'Only entries at or before this ISO-8601 time (optional)',
+        },
+        sinceMinutes: {
+          type: 'number',
+          description: 'Only entries from the last N minutes (alternative to since)',
+        },
+        file: {
+          type: 'string',
+          description: 'Log file path relative to the log directory (default: most recently modified log)',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of entries to return, most recent kept (default: 100)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_recent_errors',
+    description: 'Collect recent ERROR log entries grouped by exception type, with a sample stack trace per group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sinceMinutes: {
+          type: 'number',
+          description: 'Look back this many minutes (default: 60)',
+        },
+        file: {
+          type: 'string',
+          description: 'Log file path relative to the log directory (default: most recently modified log)',
+        },
+        maxGroups: {
+          type: 'number',
+          description: 'Maximum number of exception groups to return (default: 20)',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_cms_pages',
+    description: 'List CMS pages in a content catalog version, optionally filtered by page template',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalogId: {
+          type: 'string',
+          description: 'Content catalog ID (default: configured content catalog)',
+        },
+        catalogVersion: {
+          type: 'string',
+          description: 'Content catalog version (default: configured content catalog version)',
+        },
+        template: {
+          type: 'string',
+          description: 'Page template UID to filter by (optional)',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of pages to return (default: 200)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_cms_page',
+    description: 'Resolve a CMS page into its content slots and components, including restrictions and visibility',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pageUid: {
+          type: 'string',
+          description: 'Page UID (e.g., "homepage")',
+        },
+        catalogId: {
+          type: 'string',
+          description: 'Content catalog ID (default: configured content catalog)',
+        },
+        catalogVersion: {
+          type: 'string',
+          description: 'Content catalog version (default: configured content catalog version)',
+        },
+      },
+      required: ['pageUid'],
+    },
+  },
+  {
+    name: 'get_cms_component',
+    description: 'Get a CMS component by UID with all its readable attributes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        componentUid: {
+          type: 'string',
+          description: 'Component UID',
+        },
+        catalogId: {
+          type: 'string',
+          description: 'Content catalog ID (default: configured content catalog)',
+        },
+        catalogVersion: {
+          type: 'string',
+          description: 'Content catalog version (default: configured content catalog version)',
+        },
+      },
+      required: ['componentUid'],
+    },
+  },
+  {
+    name: 'list_page_templates',
+    description: 'List page templates in a content catalog version with their available slots',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalogId: {
+          type: 'string',
+          description: 'Content catalog ID (default: configured content catalog)',
+        },
+        catalogVersion: {
+          type: 'string',
+          description: 'Content catalog version (default: configured content catalog version)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_stock_levels',
+    description: 'Get the StockLevel rows for a product across all warehouses',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productCode: {
+          type: 'string',
+          description: 'The product code/SKU',
+        },
+      },
+      required: ['productCode'],
+    },
+  },
+  {
+    name: 'get_low_stock',
+    description: 'List stock levels in a warehouse whose available minus reserved quantity is at or below a threshold',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        warehouseCode: {
+          type: 'string',
+          description: 'Warehouse code',
+        },
+        threshold: {
+          type: 'number',
+          description: 'Report stock levels with available - reserved at or below this value (default: 10)',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of results (default: 200)',
+        },
+      },
+      required: ['warehouseCode'],
+    },
+  },
+  {
+    name: 'update_stock_level',
+    description: 'Set the available (and optionally reserved) stock of a product at a warehouse',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productCode: {
+          type: 'string',
+          description: 'The product code/SKU',
+        },
+        warehouseCode: {
+          type: 'string',
+          description: 'Warehouse code',
+        },
+        available: {
+          type: 'number',
+          description: 'New available quantity',
+        },
+        reserved: {
+          type: 'number',
+          description: 'New reserved quantity (optional, unchanged if not specified)',
+        },
+      },
+      required: ['productCode', 'warehouseCode', 'available'],
+    },
+  },
+  {
+    name: 'get_atp',
+    description: 'Get available-to-promise stock for a product online and per point of service of the configured base site',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productCode: {
+          type: 'string',
+          description: 'The product code/SKU',
+        },
+        pointOfService: {
+          type: 'string',
+          description: 'Point of service name (optional, all points of service if not specified)',
+        },
+      },
+      required: ['productCode'],
+    },
+  },
+  {
+    name: 'list_promotions',
+    description: 'List promotion source rules filtered by status and a validity date window',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['UNPUBLISHED', 'PUBLISHED', 'MODIFIED', 'ARCHIVED', 'INACTIVE'],
+          description: 'Rule status to filter by (optional)',
+        },
+        from: {
+          type: 'string',
+          description: 'Only rules valid at some point at or after this ISO-8601 time (optional)',
+        },
+        to: {
+          type: 'string',
+          description: 'Only rules valid at some point at or before this ISO-8601 time (optional)',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of results (default: 200)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_promotion_details',
+    description: 'Get a promotion source rule with its conditions and actions',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ruleCode: {
+          type: 'string',
+          description: 'Promotion source rule code',
+        },
+      },
+      required: ['ruleCode'],
+    },
+  },
+  {
+    name: 'get_price_rows',
+    description: 'List price rows for a product including user price groups, date ranges, currencies and quantity scales',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        productCode: {
+          type: 'string',
+          description: 'The product code/SKU',
+        },
+      },
+      required: ['productCode'],
+    },
+  },
+  {
+    name: 'list_price_groups',
+    description: 'List user price groups with the user groups assigned to them and their price row counts',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'search_customers',
+    description: 'Search customers by a fragment of their uid/email, name or customer ID',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Case-insensitive fragment to search for',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of results (default: 50)',
+        },
+        maskPersonalData: {
+          type: 'boolean',
+          description: 'Mask names, emails and addresses (default: HYBRIS_MASK_PERSONAL_DATA; cannot turn off masking enabled there)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_customer_details',
+    description: 'Get a customer profile: groups, addresses, site, login-disabled flag, last login and order count',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        customerUid: {
+          type: 'string',
+          description: 'Customer uid (usually the email)',
+        },
+        maskPersonalData: {
+          type: 'boolean',
+          description: 'Mask names, emails and addresses (default: HYBRIS_MASK_PERSONAL_DATA; cannot turn off masking enabled there)',
+        },
+      },
+      required: ['customerUid'],
+    },
+  },
+  {
+    name: 'list_user_groups',
+    description: 'List user groups with their members, sub-groups and super-groups',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Group uid pattern, * and ? are wildcards (optional)',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of groups (default: 100)',
+        },
+        maxMembers: {
+          type: 'number',
+          description: 'Maximum members listed per group (default: 50)',
+        },
+        maskPersonalData: {
+          type: 'boolean',
+          description: 'Mask names, emails and addresses (default: HYBRIS_MASK_PERSONAL_DATA; cannot turn off masking enabled there)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_user_groups',
+    description: 'List the groups a user belongs to, directly and transitively',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        userUid: {
+          type: 'string',
+          description: 'User uid',
+        },
+      },
+      required: ['userUid'],
+    },
+  },
+  {
+    name: 'list_business_processes',
+    description: 'List business processes filtered by state and process definition, most recently modified first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        state: {
+          type: 'string',
+          enum: ['CREATED', 'RUNNING', 'WAITING', 'SUCCEEDED', 'FAILED', 'ERROR'],
+          description: 'Process state to filter by (optional)',
+        },
+        processDefinition: {
+          type: 'string',
+          description: 'Process definition name to filter by (e.g., "order-process")',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of results (default: 100)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_process_details',
+    description: 'Get full details of a business process: current tasks, task logs, context parameters and linked order or consignment',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        processCode: {
+          type: 'string',
+          description: 'Business process code',
+        },
+      },
+      required: ['processCode'],
+    },
+  },
+  {
+    name: 'restart_process',
+    description: 'Restart a failed business process from a named action',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        processCode: {
+          type: 'string',
+          description: 'Business process code',
+        },
+        action: {
+          type: 'string',
+          description: 'Action ID in the process definition to restart from',
+        },
+      },
+      required: ['processCode', 'action'],
+    },
+  },
+  {
+    name: 'get_type_definition',
+    description: 'Get the full definition of a composed type: supertype chain, subtypes, declared and inherited attributes, and relations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        typeCode: {
+          type: 'string',
+          description: 'Type code (e.g., "Product")',
+        },
+      },
+      required: ['typeCode'],
+    },
+  },
+  {
+    name: 'list_types',
+    description: 'List composed types whose code matches a pattern (case-insensitive)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Type code pattern, * and ? are wildcards (e.g., "*Product*"). Without wildcards, matches as a substring',
+        },
+        maxCount: {
+          type: 'number',
+          description: 'Maximum number of types to return (default: 200)',
+        },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: 'get_type_attributes',
+    description: 'Get the attribute descriptors of a type (qualifier, type, optional/unique/localized/partOf flags, persistence)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        typeCode: {
+          type: 'string',
+          description: 'Type code (e.g., "Product")',
+        },
+        includeInherited: {
+          type: 'boolean',
+          description: 'Include attributes inherited from supertypes (default: true)',
+        },
+      },
+      required: ['typeCode'],
+    },
+  },
+  {
+    name: 'get_type_relations',
+    description: 'Get the relation ends of a type with their cardinality and the opposite end',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        typeCode: {
+          type: 'string',
+          description: 'Type code (e.g., "Order")',
+        },
+      },
+      required: ['typeCode'],
+    },
+  },
+  {
+    name: 'health_check',
+    description: 'Check if the Hybris instance is healthy and reachable',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'list_environments',
+    description: 'List the configured Hybris environments, optionally with a health summary for each',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeHealth: {
+          type: 'boolean',
+          description: 'Run a health check against every environment (default: false)',
+        },
+      },
+    },
+  },
+];
+
+// Tools that operate on the server itself rather than on one environment
+const ENVIRONMENT_INDEPENDENT_TOOLS = new Set(['list_environments']);
+
+// Build the advertised tool list: hide tools no environment allows for the role, add the optional
+// `environment` argument, and add `confirm` where an environment requires confirmation
+function buildToolList(toolList: Tool[], environments: EnvironmentRegistry, role: PolicyMode): Tool[] {
+  const modes = environments.modes.map((mode) => restrictMode(mode, role));
+  const needsConfirm = modes.includes('confirm-writes');
+
+  return toolList
+    .filter((tool) => modes.some((mode) => isToolAvailable(mode, tool.name)))
+    .map((tool) => {
+      const properties = { ...tool.inputSchema.properties } as Record<string, object>;
+      if (!ENVIRONMENT_INDEPENDENT_TOOLS.has(tool.name)) {
+        properties.environment = {
+          type: 'string',
+          enum: environments.names,
+          description: `Target environment (default: ${environments.defaultName})`,
+        };
+      }
+      // Tools hidden in read-only mode are the ones that mutate state
+      if (needsConfirm && !isToolAvailable('read-only', tool.name)) {
+        properties.confirm = {
+          type: 'boolean',
+          description: 'Confirm a write or destructive operation in environments running in confirm-writes mode',
+        };
+      }
+      // execute_groovy becomes destructive with commit=true
+      if (classifyTool(tool.name, { commit: true }) === 'destructive') {
+        properties.confirmationToken = {
+          type: 'string',
+          description: 'Token from a previous call\'s preview; destructive operations only run when it is provided',
+        };
+      }
+      return {
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties,
+        },
+      };
+    });
+}
+
+// Create a server with all handlers. Each client session gets its own server and confirmation
+// tokens; the client's role caps the access mode of every environment. Local path arguments
+// are confined to fileRoot, and refused without one.
+function createMcpServer(
+  environments: EnvironmentRegistry,
+  fileRoot: string | undefined,
+  role: PolicyMode = 'full'
+): Server {
+  const advertisedTools = buildToolList(tools, environments, role);
+  const confirmations = new ConfirmationStore();
+
+  const server = new Server(
+    {
+      name: 'hybris-mcp',
+      version: pkg.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // Handle list tools request
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: advertisedTools };
+  });
+
+  // Resources are read-only views of Hybris entities, allowed in every mode
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources(environments) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri, environments);
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPT_LIST };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments, environments, role);
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    // Long-running tools report progress when the client asked for it
+    const progressToken = request.params._meta?.progressToken;
+    const reportProgress = progressToken === undefined
+      ? undefined
+      : async (progress: number, total: number, message: string) => {
+          await extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          });
+        };
+
+    try {
+      let result: unknown;
+      const environment = validateString(args, 'environment', false);
+      const hybrisClient = environments.getClient(environment);
+
+      // Enforce the environment's access policy before anything runs
+      const decision = evaluatePolicy(
+        restrictMode(environments.getMode(environment), role),
+        environment || environments.defaultName,
+        name,
+        args
+      );
+      if (!decision.allowed) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Refused: ${decision.reason}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      // Local files are read once, so the confirmed content is the content that runs
+      let localFiles: LocalFileSet | undefined;
+      if ((name === 'import_impex' || name === 'execute_groovy') && args?.path !== undefined) {
+        if (!fileRoot) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Refused: local paths are disabled over the HTTP transport unless HYBRIS_MCP_FILE_ROOT is set; ' +
+                  'send the content inline instead',
+              },
+            ],
+            isError: true,
+          };
+        }
+        localFiles = await readLocalFiles(validateString(args, 'path', true), fileRoot);
+      }
+
+      // Destructive calls first return a preview and a token; only a call presenting it executes
+      if (decision.access === 'destructive') {
+        const target = environment || environments.defaultName;
+        const token = validateString(args, 'confirmationToken', false);
+        if (!token) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(confirmations.request(name, target, args, localFiles), null, 2),
+              },
+            ],
+          };
+        }
+        confirmations.consume(token, name, target, args, localFiles);
+      }
+
+      switch (name) {
+        case 'search_products':
+          result = await hybrisClient.searchProducts(
+            validateString(args, 'query', true),
+            validateNumber(args, 'pageSize', { min: 1, max: 100 }),
+            validateNumber(args, 'currentPage', { min: 0 })
+          );
+          break;
+
         case 'get_product':
           result = await hybrisClient.getProduct(
             validateString(args, 'productCode', true)
@@ -408,39 +1548,124 @@ async function main() {
         case 'flexible_search':
           result = await hybrisClient.executeFlexibleSearch(
             validateString(args, 'query', true),
-            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+            {
+              offset: validateNumber(args, 'offset', { min: 0, integer: true }),
+              limit:
+                validateNumber(args, 'limit', { min: 1, max: 10000, integer: true }) ??
+                validateNumber(args, 'maxCount', { min: 1, max: 10000, integer: true }),
+              cursor: validateString(args, 'cursor', false),
+              params: validateRecord(args, 'params') as Record<string, FlexibleSearchParam> | undefined,
+              user: validateString(args, 'user', false),
+              language: validateString(args, 'language', false),
+            }
           );
           break;
 
-        case 'execute_groovy':
-          result = await hybrisClient.executeGroovyScript(
-            validateString(args, 'script', true),
-            validateBoolean(args, 'commit', false)
-          );
+        case 'execute_groovy': {
+          const commit = validateBoolean(args, 'commit', false);
+          result = validateOneOf(args, ['script', 'path']) === 'path'
+            ? await hybrisClient.executeGroovyFiles(localFiles!, commit, reportProgress)
+            : await hybrisClient.executeGroovyScript(validateString(args, 'script', true), commit);
           break;
+        }
 
-        case 'import_impex':
-          result = await hybrisClient.importImpex(
+        case 'import_impex': {
+          const options = {
+            validateOnly: validateBoolean(args, 'validateOnly', false),
+            enableCodeExecution: validateBoolean(args, 'enableCodeExecution', false),
+            legacyMode: validateOptionalBoolean(args, 'legacyMode'),
+            maxThreads: validateNumber(args, 'maxThreads', { min: 1, max: 64 }),
+            locale: validateString(args, 'locale', false),
+            errorsOnly: validateBoolean(args, 'errorsOnly', false),
+          };
+          result = validateOneOf(args, ['impexContent', 'path']) === 'path'
+            ? await hybrisClient.importImpexFiles(localFiles!, options, reportProgress)
+            : await hybrisClient.importImpex(validateString(args, 'impexContent', true), options, reportProgress);
+          break;
+        }
+
+        case 'preview_impex_changes':
+          result = await hybrisClient.previewImpexChanges(
             validateString(args, 'impexContent', true)
           );
           break;
 
         case 'export_impex':
           result = await hybrisClient.exportImpex(
-            validateString(args, 'flexQuery', true)
+            validateString(args, 'flexQuery', true),
+            {
+              attributes: validateStringArray(args, 'attributes'),
+              languages: validateStringArray(args, 'languages'),
+            }
           );
           break;
 
         case 'get_cronjobs':
-          result = await hybrisClient.getCronJobs();
+          result = await hybrisClient.getCronJobs({
+            code: validateString(args, 'code', false),
+            status: validateString(args, 'status', false),
+            result: validateString(args, 'result', false),
+            jobType: validateString(args, 'jobType', false),
+            nodeId: validateNumber(args, 'nodeId', { min: 0, integer: true }),
+            active: validateOptionalBoolean(args, 'active'),
+            limit: validateNumber(args, 'limit', { min: 1, max: 1000, integer: true }),
+          });
+          break;
+
+        case 'get_cronjob_history':
+          result = await hybrisClient.getCronJobHistory(
+            validateString(args, 'cronJob', true),
+            validateNumber(args, 'maxRuns', { min: 1, max: 100, integer: true }),
+            validateNumber(args, 'logEntries', { min: 0, max: 200, integer: true })
+          );
+          break;
+
+        case 'abort_cronjob':
+          result = await hybrisClient.abortCronJob(validateString(args, 'cronJob', true));
+          break;
+
+        case 'set_cronjob_active': {
+          const active = validateOptionalBoolean(args, 'active');
+          if (active === undefined) {
+            throw new Error('active is required');
+          }
+          result = await hybrisClient.setCronJobActive(validateString(args, 'cronJob', true), active);
+          break;
+        }
+
+        case 'create_trigger':
+          result = await hybrisClient.createTrigger(
+            validateString(args, 'cronJob', true),
+            validateString(args, 'cronExpression', true),
+            validateBoolean(args, 'active', true)
+          );
+          break;
+
+        case 'update_trigger':
+          result = await hybrisClient.updateTrigger(validateString(args, 'triggerPk', true), {
+            cronExpression: validateString(args, 'cronExpression', false),
+            active: validateOptionalBoolean(args, 'active'),
+          });
           break;
 
         case 'trigger_cronjob':
           result = await hybrisClient.triggerCronJob(
-            validateString(args, 'cronJobCode', true)
+            validateString(args, 'cronJobCode', true),
+            validateWaitOptions(args),
+            reportProgress
           );
           break;
 
+        case 'get_cronjob_status': {
+          const cronJob = validateString(args, 'cronJob', true);
+          const logLines = validateNumber(args, 'logLines', { min: 0, max: 500, integer: true });
+          const { wait, timeoutSeconds } = validateWaitOptions(args);
+          result = wait
+            ? await hybrisClient.waitForCronJob(cronJob, timeoutSeconds, reportProgress, undefined, logLines)
+            : await hybrisClient.getCronJobStatus(cronJob, logLines);
+          break;
+        }
+
         case 'clear_cache':
           result = await hybrisClient.clearCache(
             validateString(args, 'cacheType', false)
@@ -455,7 +1680,270 @@ async function main() {
           result = await hybrisClient.triggerCatalogSync(
             validateString(args, 'catalogId', true),
             validateString(args, 'sourceVersion', true),
-            validateString(args, 'targetVersion', true)
+            validateString(args, 'targetVersion', true),
+            validateWaitOptions(args),
+            reportProgress
+          );
+          break;
+
+        case 'compare_catalog_versions':
+          result = await hybrisClient.compareCatalogVersions(
+            validateString(args, 'catalogId', true),
+            validateString(args, 'sourceVersion', false) || 'Staged',
+            validateString(args, 'targetVersion', false) || 'Online',
+            {
+              types: validateStringArray(args, 'types'),
+              attributes: validateStringArray(args, 'attributes'),
+              maxItems: validateNumber(args, 'maxItems', { min: 1, max: 100000 }),
+              maxDifferences: validateNumber(args, 'maxDifferences', { min: 1, max: 10000 }),
+            }
+          );
+          break;
+
+        case 'list_solr_indexes':
+          result = await hybrisClient.listSolrIndexes();
+          break;
+
+        case 'get_index_status':
+          result = await hybrisClient.getSolrIndexStatus(
+            validateString(args, 'facetSearchConfig', false)
+          );
+          break;
+
+        case 'trigger_solr_indexing':
+          result = await hybrisClient.triggerSolrIndexing(
+            validateString(args, 'facetSearchConfig', true),
+            validateEnum(args, 'operation', ['full', 'update'] as const, 'update'),
+            validateWaitOptions(args),
+            reportProgress
+          );
+          break;
+
+        case 'get_indexed_properties':
+          result = await hybrisClient.getIndexedProperties(
+            validateString(args, 'facetSearchConfig', true),
+            validateString(args, 'indexedType', false)
+          );
+          break;
+
+        case 'get_property':
+          result = await hybrisClient.getProperty(
+            validateString(args, 'key', true)
+          );
+          break;
+
+        case 'search_properties':
+          result = await hybrisClient.searchProperties(
+            validateString(args, 'pattern', true),
+            validateBoolean(args, 'searchValues', true),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+          );
+          break;
+
+        case 'get_extensions':
+          result = await hybrisClient.getExtensions();
+          break;
+
+        case 'get_log_files':
+          result = await hybrisClient.getLogFiles();
+          break;
+
+        case 'tail_log':
+          result = await hybrisClient.tailLog(
+            validateString(args, 'file', false),
+            validateNumber(args, 'lines', { min: 1, max: 1000 })
+          );
+          break;
+
+        case 'search_logs': {
+          const sinceMinutes = validateNumber(args, 'sinceMinutes', { min: 1 });
+          result = await hybrisClient.searchLogs({
+            pattern: validateString(args, 'pattern', false),
+            level: validateString(args, 'level', false),
+            since: sinceMinutes !== undefined
+              ? new Date(Date.now() - sinceMinutes * 60 * 1000)
+              : validateDate(args, 'since'),
+            until: validateDate(args, 'until'),
+            file: validateString(args, 'file', false),
+            maxResults: validateNumber(args, 'maxResults', { min: 1, max: 1000 }),
+          });
+          break;
+        }
+
+        case 'get_recent_errors':
+          result = await hybrisClient.getRecentErrors(
+            validateNumber(args, 'sinceMinutes', { min: 1 }),
+            validateString(args, 'file', false),
+            validateNumber(args, 'maxGroups', { min: 1, max: 100 })
+          );
+          break;
+
+        case 'list_cms_pages':
+          result = await hybrisClient.listCmsPages(
+            validateString(args, 'catalogId', false),
+            validateString(args, 'catalogVersion', false),
+            validateString(args, 'template', false),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+          );
+          break;
+
+        case 'get_cms_page':
+          result = await hybrisClient.getCmsPage(
+            validateString(args, 'pageUid', true),
+            validateString(args, 'catalogId', false),
+            validateString(args, 'catalogVersion', false)
+          );
+          break;
+
+        case 'get_cms_component':
+          result = await hybrisClient.getCmsComponent(
+            validateString(args, 'componentUid', true),
+            validateString(args, 'catalogId', false),
+            validateString(args, 'catalogVersion', false)
+          );
+          break;
+
+        case 'list_page_templates':
+          result = await hybrisClient.listPageTemplates(
+            validateString(args, 'catalogId', false),
+            validateString(args, 'catalogVersion', false)
+          );
+          break;
+
+        case 'get_stock_levels':
+          result = await hybrisClient.getStockLevels(
+            validateString(args, 'productCode', true)
+          );
+          break;
+
+        case 'get_low_stock':
+          result = await hybrisClient.getLowStock(
+            validateString(args, 'warehouseCode', true),
+            validateNumber(args, 'threshold', { min: 0 }),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+          );
+          break;
+
+        case 'update_stock_level': {
+          const available = validateNumber(args, 'available', { min: 0 });
+          if (available === undefined) {
+            throw new Error('available is required');
+          }
+          result = await hybrisClient.updateStockLevel(
+            validateString(args, 'productCode', true),
+            validateString(args, 'warehouseCode', true),
+            available,
+            validateNumber(args, 'reserved', { min: 0 })
+          );
+          break;
+        }
+
+        case 'get_atp':
+          result = await hybrisClient.getAvailableToPromise(
+            validateString(args, 'productCode', true),
+            validateString(args, 'pointOfService', false)
+          );
+          break;
+
+        case 'list_promotions':
+          result = await hybrisClient.listPromotions(
+            validateString(args, 'status', false),
+            validateDate(args, 'from'),
+            validateDate(args, 'to'),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+          );
+          break;
+
+        case 'get_promotion_details':
+          result = await hybrisClient.getPromotionDetails(
+            validateString(args, 'ruleCode', true)
+          );
+          break;
+
+        case 'get_price_rows':
+          result = await hybrisClient.getPriceRows(
+            validateString(args, 'productCode', true)
+          );
+          break;
+
+        case 'list_price_groups':
+          result = await hybrisClient.listPriceGroups();
+          break;
+
+        case 'search_customers':
+          result = await hybrisClient.searchCustomers(
+            validateString(args, 'query', true),
+            validateNumber(args, 'maxCount', { min: 1, max: 1000 }),
+            validateOptionalBoolean(args, 'maskPersonalData')
+          );
+          break;
+
+        case 'get_customer_details':
+          result = await hybrisClient.getCustomerDetails(
+            validateString(args, 'customerUid', true),
+            validateOptionalBoolean(args, 'maskPersonalData')
+          );
+          break;
+
+        case 'list_user_groups':
+          result = await hybrisClient.listUserGroups(
+            validateString(args, 'pattern', false),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 }),
+            validateNumber(args, 'maxMembers', { min: 0, max: 10000 }),
+            validateOptionalBoolean(args, 'maskPersonalData')
+          );
+          break;
+
+        case 'get_user_groups':
+          result = await hybrisClient.getUserGroupsForUser(
+            validateString(args, 'userUid', true)
+          );
+          break;
+
+        case 'list_business_processes':
+          result = await hybrisClient.listBusinessProcesses(
+            validateString(args, 'state', false),
+            validateString(args, 'processDefinition', false),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+          );
+          break;
+
+        case 'get_process_details':
+          result = await hybrisClient.getProcessDetails(
+            validateString(args, 'processCode', true)
+          );
+          break;
+
+        case 'restart_process':
+          result = await hybrisClient.restartProcess(
+            validateString(args, 'processCode', true),
+            validateString(args, 'action', true)
+          );
+          break;
+
+        case 'get_type_definition':
+          result = await hybrisClient.getTypeDefinition(
+            validateString(args, 'typeCode', true)
+          );
+          break;
+
+        case 'list_types':
+          result = await hybrisClient.listTypes(
+            validateString(args, 'pattern', true),
+            validateNumber(args, 'maxCount', { min: 1, max: 10000 })
+          );
+          break;
+
+        case 'get_type_attributes':
+          result = await hybrisClient.getTypeAttributes(
+            validateString(args, 'typeCode', true),
+            validateBoolean(args, 'includeInherited', true)
+          );
+          break;
+
+        case 'get_type_relations':
+          result = await hybrisClient.getTypeRelations(
+            validateString(args, 'typeCode', true)
           );
           break;
 
@@ -463,6 +1951,12 @@ async function main() {
           result = await hybrisClient.healthCheck();
           break;
 
+        case 'list_environments':
+          result = await environments.summarize(
+            validateBoolean(args, 'includeHealth', false)
+          );
+          break;
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
@@ -489,10 +1983,43 @@ async function main() {
     }
   });
 
-  // Start the server
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('Hybris MCP server started');
+  return server;
+}
+
+async function main() {
+  let environments: EnvironmentRegistry;
+  let http: HttpServerOptions | undefined;
+  let fileRoot: string | undefined;
+  try {
+    environments = EnvironmentRegistry.fromEnv();
+    http = readHttpOptions();
+    fileRoot = readFileRoot(process.env, http !== undefined);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  let close: () => Promise<void>;
+  if (http) {
+    // One process serves the whole team; sessions share the environment registry and its clients
+    const httpServer = await startHttpServer(http, (role) => createMcpServer(environments, fileRoot, role));
+    close = () => httpServer.close();
+    console.error(`Hybris MCP server listening on http://${http.host}:${http.port}/mcp`);
+  } else {
+    const server = createMcpServer(environments, fileRoot);
+    await server.connect(new StdioServerTransport());
+    close = () => server.close();
+    console.error('Hybris MCP server started');
+  }
+
+  // Graceful shutdown handlers
+  const shutdown = async () => {
+    console.error('Shutting down Hybris MCP server...');
+    await close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
 main().catch((error) => {
@@ -0,0 +1,112 @@
+/**
+ * Local files named by the path argument of import_impex and execute_groovy. Paths must resolve
+ * inside the file root, and files are read once: the content that is previewed and fingerprinted
+ * for confirmation is the content that runs.
+ */
+
+import { createHash } from 'crypto';
+import { realpathSync } from 'fs';
+import { readdir, readFile, realpath, stat } from 'fs/promises';
+import { basename, join, relative, resolve, sep } from 'path';
+
+// Everything is held in memory until the call finishes
+const MAX_TOTAL_BYTES = 256 * 1024 * 1024;
+
+export interface LocalFile {
+  relativePath: string;
+  data: Buffer;
+}
+
+export interface LocalFileSet {
+  // Path as given by the caller, for messages
+  path: string;
+  isDirectory: boolean;
+  // Sorted by relative path
+  files: LocalFile[];
+  // SHA-256 over the relative paths and contents
+  digest: string;
+}
+
+/**
+ * Read the directory local paths are confined to. Relative paths are resolved against it.
+ * Over the HTTP transport the files belong to the server host, not to the client, so local
+ * paths are only accepted when a root is configured explicitly.
+ */
+export function readFileRoot(env: NodeJS.ProcessEnv = process.env, http = false): string | undefined {
+  const root = env.HYBRIS_MCP_FILE_ROOT || (http ? undefined : process.cwd());
+  if (!root) return undefined;
+  try {
+    return realpathSync(root);
+  } catch {
+    throw new Error(`HYBRIS_MCP_FILE_ROOT does not exist: ${root}`);
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  return target === root || target.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+/**
+ * Read a local file, or the files below a local directory sorted by path. Hidden entries and
+ * symbolic links inside directories are skipped, so nothing outside the root is reached.
+ */
+export async function readLocalFiles(path: string, root: string): Promise<LocalFileSet> {
+  const target = await realpath(resolve(root, path)).catch(() => {
+    throw new Error(`Local path not found: ${path}`);
+  });
+  if (!isInside(root, target)) {
+    throw new Error(`Local path ${path} is outside the file root ${root} (HYBRIS_MCP_FILE_ROOT)`);
+  }
+
+  const info = await stat(target);
+  const entries: { relativePath: string; absolutePath: string }[] = [];
+  if (info.isFile()) {
+    entries.push({ relativePath: basename(target), absolutePath: target });
+  } else {
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        if (entry.name.startsWith('.')) continue;
+        const absolutePath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(absolutePath);
+        } else if (entry.isFile()) {
+          entries.push({ relativePath: relative(target, absolutePath).split(sep).join('/'), absolutePath });
+        }
+      }
+    };
+    await walk(target);
+    entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  const files: LocalFile[] = [];
+  const hash = createHash('sha256');
+  let total = 0;
+  for (const entry of entries) {
+    const data = await readFile(entry.absolutePath);
+    total += data.length;
+    if (total > MAX_TOTAL_BYTES) {
+      throw new Error(`Local path ${path} exceeds ${MAX_TOTAL_BYTES / (1024 * 1024)}MB`);
+    }
+    hash.update(`${entry.relativePath}\0${data.length}\0`).update(data);
+    files.push({ relativePath: entry.relativePath, data });
+  }
+
+  return { path, isDirectory: !info.isFile(), files, digest: hash.digest('hex') };
+}
+
+/**
+ * Split a file set into the files to run and, for directories, the other files (media).
+ * A single file is always run, whatever its extension.
+ */
+export function partitionFiles(
+  fileSet: LocalFileSet,
+  extension: string
+): { scripts: LocalFile[]; others: LocalFile[] } {
+  if (!fileSet.isDirectory) {
+    return { scripts: fileSet.files, others: [] };
+  }
+  return {
+    scripts: fileSet.files.filter((file) => file.relativePath.endsWith(extension)),
+    others: fileSet.files.filter((file) => !file.relativePath.endsWith(extension)),
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Access policy for tools: classifies every tool and decides whether a call may run
+ */
+
+import { HybrisClient } from './hybris-client.js';
+
+export type ToolAccess = 'read' | 'write' | 'destructive';
+
+export type PolicyMode = 'read-only' | 'confirm-writes' | 'full';
+
+export const POLICY_MODES: readonly PolicyMode[] = ['read-only', 'confirm-writes', 'full'];
+
+// Every tool must be listed here; unlisted tools are refused
+const TOOL_ACCESS: Record<string, ToolAccess> = {
+  // Product & Catalog (OCC)
+  search_products: 'read',
+  get_product: 'read',
+  get_categories: 'read',
+  get_category: 'read',
+  get_orders: 'read',
+  get_order: 'read',
+
+  // Administration (HAC)
+  flexible_search: 'read',
+  execute_groovy: 'write', // 'destructive' when commit=true, see classifyTool
+  import_impex: 'destructive', // 'write' or 'read' when only validating, see classifyTool
+  preview_impex_changes: 'read',
+  export_impex: 'read',
+  get_cronjobs: 'read',
+  trigger_cronjob: 'write',
+  get_cronjob_status: 'read',
+  get_cronjob_history: 'read',
+  abort_cronjob: 'write',
+  set_cronjob_active: 'write',
+  create_trigger: 'write',
+  update_trigger: 'write',
+  clear_cache: 'destructive',
+  get_system_info: 'read',
+  trigger_catalog_sync: 'write',
+  compare_catalog_versions: 'read',
+
+  // Solr
+  list_solr_indexes: 'read',
+  get_index_status: 'read',
+  trigger_solr_indexing: 'write',
+  get_indexed_properties: 'read',
+
+  // Configuration
+  get_property: 'read',
+  search_properties: 'read',
+  get_extensions: 'read',
+
+  // Logs
+  get_log_files: 'read',
+  tail_log: 'read',
+  search_logs: 'read',
+  get_recent_errors: 'read',
+
+  // CMS
+  list_cms_pages: 'read',
+  get_cms_page: 'read',
+  get_cms_component: 'read',
+  list_page_templates: 'read',
+
+  // Stock
+  get_stock_levels: 'read',
+  get_low_stock: 'read',
+  update_stock_level: 'write',
+  get_atp: 'read',
+
+  // Promotions & Pricing
+  list_promotions: 'read',
+  get_promotion_details: 'read',
+  get_price_rows: 'read',
+  list_price_groups: 'read',
+
+  // Customers
+  search_customers: 'read',
+  get_customer_details: 'read',
+  list_user_groups: 'read',
+  get_user_groups: 'read',
+
+  // Business Processes
+  list_business_processes: 'read',
+  get_process_details: 'read',
+  restart_process: 'write',
+
+  // Type System
+  get_type_definition: 'read',
+  list_types: 'read',
+  get_type_attributes: 'read',
+  get_type_relations: 'read',
+
+  // Server
+  health_check: 'read',
+  list_environments: 'read',
+};
+
+export interface PolicyDecision {
+  allowed: boolean;
+  access?: ToolAccess;
+  reason?: string;
+}
+
+/**
+ * Parse a configured mode. Writes are opt-in: without a mode every write needs confirmation.
+ */
+export function parsePolicyMode(value: string | undefined, source: string): PolicyMode {
+  if (!value) return 'confirm-writes';
+  if (!POLICY_MODES.includes(value as PolicyMode)) {
+    throw new Error(`${source} must be one of: ${POLICY_MODES.join(', ')} (got "${value}")`);
+  }
+  return value as PolicyMode;
+}
+
+/**
+ * The stricter of two modes, e.g. an environment's mode capped by the role of the calling client.
+ */
+export function restrictMode(mode: PolicyMode, limit: PolicyMode): PolicyMode {
+  return POLICY_MODES.indexOf(limit) < POLICY_MODES.indexOf(mode) ? limit : mode;
+}
+
+/**
+ * Classify a call. Arguments matter for tools whose impact depends on them.
+ */
+export function classifyTool(name: string, args?: Record<string, unknown>): ToolAccess | undefined {
+  if (name === 'execute_groovy' && args?.commit === true) {
+    return 'destructive';
+  }
+  // Validating a local path reads files of the server host into Hybris and the report, so it is never a read
+  if (name === 'import_impex' && args?.validateOnly === true) {
+    return isContainedValidation(args) ? 'read' : 'write';
+  }
+  return TOOL_ACCESS[name];
+}
+
+/**
+ * Validation rolls back its transaction, but staged uploads, embedded code, translators and cell
+ * decorators (e.g. media imports) reach outside it. Only small inline content without them is a read.
+ */
+function isContainedValidation(args: Record<string, unknown>): boolean {
+  const content = args.impexContent;
+  return (
+    args.enableCodeExecution !== true &&
+    args.path === undefined &&
+    typeof content === 'string' &&
+    Buffer.byteLength(content, 'utf-8') <= HybrisClient.INLINE_CONTENT_LIMIT &&
+    !/translator|celldecorator|@media|^\s*#%/im.test(content)
+  );
+}
+
+/**
+ * Whether a tool can be called at all under a mode, regardless of its arguments.
+ */
+export function isToolAvailable(mode: PolicyMode, name: string): boolean {
+  const access = TOOL_ACCESS[name];
+  if (access === undefined) return false;
+  return mode !== 'read-only' || access === 'read';
+}
+
+export function evaluatePolicy(
+  mode: PolicyMode,
+  environment: string,
+  name: string,
+  args?: Record<string, unknown>
+): PolicyDecision {
+  const access = classifyTool(name, args);
+  if (access === undefined) {
+    return { allowed: false, reason: `Unknown tool or tool without access classification: ${name}` };
+  }
+  if (access === 'read' || mode === 'full') {
+    return { allowed: true, access };
+  }
+  if (mode === 'read-only') {
+    return {
+      allowed: false,
+      access,
+      reason: `${name} is a ${access} operation and environment "${environment}" is read-only`,
+    };
+  }
+  if (args?.confirm !== true) {
+    return {
+      allowed: false,
+      access,
+      reason: `${name} is a ${access} operation and environment "${environment}" requires confirmation: call again with confirm: true`,
+    };
+  }
+  return { allowed: true, access };
+}
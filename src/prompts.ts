@@ -0,0 +1,184 @@
+/**
+ * MCP prompts: parameterized walkthroughs of recurring Hybris investigations. Each prompt embeds
+ * the relevant resources as context and lists the tools to use, in order.
+ */
+
+import { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EnvironmentRegistry } from './environments.js';
+import { PolicyMode, restrictMode } from './policy.js';
+import { RESOURCE_SCHEME, readResource } from './resources.js';
+
+interface PromptDefinition {
+  prompt: Prompt;
+  // Resources attached as context before the instructions
+  context(args: Record<string, string>): string[];
+  instructions(args: Record<string, string>): string;
+}
+
+const ENVIRONMENT_ARGUMENT = {
+  name: 'environment',
+  description: 'Environment to investigate (defaults to the default environment)',
+  required: false,
+};
+
+function resourceUri(path: string[], environment?: string): string {
+  const uri = RESOURCE_SCHEME + path.map(encodeURIComponent).join('/');
+  return environment ? `${uri}?environment=${encodeURIComponent(environment)}` : uri;
+}
+
+function steps(lines: string[]): string {
+  return lines.map((line, i) => `${i + 1}. ${line}`).join('\n');
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    prompt: {
+      name: 'debug_order',
+      description: 'Find out why an order is stuck or failed: status, business processes, consignments, stock and errors',
+      arguments: [
+        { name: 'orderCode', description: 'Order code', required: true },
+        ENVIRONMENT_ARGUMENT,
+      ],
+    },
+    context: (args) => [resourceUri(['order', args.orderCode], args.environment)],
+    instructions: (args) => `Investigate why order ${args.orderCode} is not progressing. The order is attached above.
+
+${steps([
+  'Compare the order status, payment status and delivery status. Note which of them is behind.',
+  'For each business process of the order, call get_process_details. Find the action that failed or is waiting, and the event it waits for.',
+  'If there are no processes, call list_business_processes with state FAILED or ERROR and look for process codes containing the order code.',
+  'For entries whose consignments are missing or not allocated, call get_stock_levels and get_atp for the product. Check whether stock was available in a warehouse of the order\'s store.',
+  'Call get_recent_errors, and search_logs for the order code and for the failing process code, to find the exception behind the failure.',
+  'Summarize the root cause and propose a fix. restart_process can resume a failed process from an action; only call it after the user agrees.',
+])}`,
+  },
+  {
+    prompt: {
+      name: 'investigate_missing_product',
+      description: 'Find out why a product is not shown in the storefront: catalog version, approval, sync, stock, prices and search index',
+      arguments: [
+        { name: 'productCode', description: 'Product code', required: true },
+        { name: 'catalogId', description: 'Product catalog to search (default: every catalog)', required: false },
+        ENVIRONMENT_ARGUMENT,
+      ],
+    },
+    context: (args) => [resourceUri(['product', args.productCode], args.environment)],
+    instructions: (args) => {
+      // Values go into a JSON snippet, so they are encoded rather than pasted
+      const params: Record<string, string> = { code: args.productCode };
+      let catalogJoin = '';
+      let catalogFilter = '';
+      if (args.catalogId) {
+        params.catalog = args.catalogId;
+        catalogJoin = ' JOIN Catalog AS c ON {cv.catalog} = {c.pk}';
+        catalogFilter = ' AND {c.id} = ?catalog';
+      }
+      return `Investigate why product ${args.productCode} is missing from the storefront${args.catalogId ? ` of catalog ${args.catalogId}` : ''}. The product as the OCC API returns it is attached above; an error there means the storefront cannot see it either.
+
+${steps([
+  `Use flexible_search to find the product in every catalog version${args.catalogId ? ` of ${args.catalogId}` : ''}: SELECT {p.pk}, {p.code}, {cv.version}, {p.approvalStatus}, {p.onlineDate}, {p.offlineDate} FROM {Product AS p JOIN CatalogVersion AS cv ON {p.catalogVersion} = {cv.pk}${catalogJoin}} WHERE {p.code} = ?code${catalogFilter}, with params ${JSON.stringify(params)}.`,
+  'If the product only exists in Staged, it has not been synchronized. Call get_cronjobs with jobType CatalogVersionSyncJob and check the last sync result.',
+  'Check that the Online version is approved and within its online/offline dates. Check its supercategories with the hybris://item/{pk} resource of the Online version.',
+  'Call get_price_rows and get_stock_levels. Products without a price, or without stock in the store\'s warehouses, are usually filtered from search and listings.',
+  'Call get_index_status for the store\'s facet search config, and check that the last indexing ran after the product\'s last modification. Use search_products to see whether the product is in the index.',
+  'Summarize which condition hides the product and how to fix it (sync, approval, price, stock or reindexing).',
+])}`;
+    },
+  },
+  {
+    prompt: {
+      name: 'investigate_failed_sync',
+      description: 'Find out why a catalog synchronization failed or did not copy items',
+      arguments: [
+        { name: 'catalogId', description: 'Catalog to synchronize', required: true },
+        { name: 'sourceVersion', description: 'Source catalog version (default: Staged)', required: false },
+        { name: 'targetVersion', description: 'Target catalog version (default: Online)', required: false },
+        ENVIRONMENT_ARGUMENT,
+      ],
+    },
+    context: () => [],
+    instructions: (args) => {
+      const source = args.sourceVersion || 'Staged';
+      const target = args.targetVersion || 'Online';
+      return `Investigate the synchronization of ${args.catalogId} from ${source} to ${target}.
+
+${steps([
+  `Call get_cronjobs with jobType CatalogVersionSyncJob and code "${args.catalogId}". Identify the sync cron jobs for ${source} -> ${target}, with their status, result and node.`,
+  'Call get_cronjob_history for the most recent sync cron job. Read the log entries of the failed runs, and compare the durations with the successful runs.',
+  `Call compare_catalog_versions for ${args.catalogId} ${source} -> ${target}, with types limited to the affected ones, to see which items differ.`,
+  'Call get_recent_errors, and search_logs within the time window of the failed run, for exceptions the cron job log does not show.',
+  'Look for common causes: items failing validation interceptors in the target version, missing references, permission or root type settings, and a sync still running or aborted on another node.',
+  'Summarize the root cause. trigger_catalog_sync with wait: true can rerun the sync once the cause is fixed; only call it after the user agrees.',
+])}`;
+    },
+  },
+  {
+    prompt: {
+      name: 'analyze_slow_cronjob',
+      description: 'Find out why a cron job runs slowly or longer than before',
+      arguments: [
+        { name: 'cronJobCode', description: 'Cron job code or PK', required: true },
+        ENVIRONMENT_ARGUMENT,
+      ],
+    },
+    context: (args) => [
+      resourceUri(['cronjob', args.cronJobCode], args.environment),
+      resourceUri(['cronjob', args.cronJobCode, 'history'], args.environment),
+    ],
+    instructions: (args) => `Analyze why cron job ${args.cronJobCode} is slow. Its status and run history are attached above.
+
+${steps([
+  'Compare the durations of the runs in the history. Note when it started to slow down and whether slow runs share a node or a time of day.',
+  'Call get_cronjobs with the same nodeId and status RUNNING. Check whether other jobs overlap with it, and check the triggers that start them.',
+  'Read the log entries of a slow run and a fast run. Find the step where the time goes; use search_logs around the slow run for warnings, timeouts and lock waits.',
+  'Call get_system_info to check memory and cluster state. If the job processes items, use flexible_search to count them, to see whether the data volume grew.',
+  'Summarize the likely cause and propose changes. update_trigger can move the job to a quieter time; only call it after the user agrees.',
+])}`,
+  },
+];
+
+export const PROMPT_LIST: Prompt[] = PROMPTS.map((definition) => definition.prompt);
+
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  environments: EnvironmentRegistry,
+  role: PolicyMode = 'full'
+): Promise<GetPromptResult> {
+  const definition = PROMPTS.find((candidate) => candidate.prompt.name === name);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const values = args || {};
+  for (const argument of definition.prompt.arguments || []) {
+    if (argument.required && !values[argument.name]) {
+      throw new Error(`${argument.name} is required`);
+    }
+  }
+
+  const environment = values.environment || environments.defaultName;
+  const mode = restrictMode(environments.getMode(environment), role);
+
+  // Context that cannot be loaded is reported instead of failing the prompt; the failure is often a finding
+  const messages: PromptMessage[] = [];
+  for (const uri of definition.context(values)) {
+    try {
+      const { contents } = await readResource(uri, environments);
+      messages.push({ role: 'user', content: { type: 'resource', resource: contents[0] } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      messages.push({ role: 'user', content: { type: 'text', text: `Could not load ${uri}: ${message}` } });
+    }
+  }
+
+  let modeNote = `Use environment "${environment}" for every tool call.`;
+  if (mode === 'read-only') {
+    modeNote += ' The environment is read-only: investigate and recommend fixes, but do not try to apply them.';
+  }
+  messages.push({
+    role: 'user',
+    content: { type: 'text', text: `${definition.instructions(values)}\n\n${modeNote}` },
+  });
+
+  return { description: definition.prompt.description, messages };
+}
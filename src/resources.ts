@@ -0,0 +1,149 @@
+/**
+ * MCP resources: Hybris entities addressed by hybris:// URIs and read through HybrisClient.
+ * Any URI may end in ?environment=<name> to read from an environment other than the default.
+ */
+
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { EnvironmentRegistry } from './environments.js';
+import { HybrisClient } from './hybris-client.js';
+
+export const RESOURCE_SCHEME = 'hybris://';
+
+const JSON_MIME_TYPE = 'application/json';
+
+interface ResourceRoute {
+  // Path segments after the scheme; "{name}" segments are parameters
+  path: string[];
+  template: ResourceTemplate;
+  read(client: HybrisClient, params: Record<string, string>): Promise<unknown>;
+}
+
+function route(
+  path: string,
+  name: string,
+  description: string,
+  read: ResourceRoute['read']
+): ResourceRoute {
+  return {
+    path: path.split('/'),
+    template: { uriTemplate: `${RESOURCE_SCHEME}${path}`, name, description, mimeType: JSON_MIME_TYPE },
+    read,
+  };
+}
+
+const ROUTES: ResourceRoute[] = [
+  route('type/{code}', 'Type definition', 'Type system definition: supertype, attributes and relations', (client, p) =>
+    client.getTypeDefinition(p.code)
+  ),
+  route('product/{code}', 'Product', 'Product details from the OCC API', (client, p) => client.getProduct(p.code)),
+  route(
+    'order/{code}',
+    'Order',
+    'Order with entries, consignments and business processes, looked up by code',
+    (client, p) => client.getOrderDetails(p.code)
+  ),
+  route('cronjob/{code}', 'Cron job', 'Cron job status, timing and last log lines (code or PK)', (client, p) =>
+    client.getCronJobStatus(p.code)
+  ),
+  route('cronjob/{code}/history', 'Cron job history', 'Past runs of a cron job with their log entries', (client, p) =>
+    client.getCronJobHistory(p.code)
+  ),
+  route('item/{pk}', 'Item', 'Any item by PK with its readable attribute values, except credentials', (client, p) => client.getItem(p.pk)),
+  route(
+    'catalog/{id}/{version}/categories',
+    'Catalog categories',
+    'Category tree of a catalog version',
+    (client, p) => client.getCategories(p.id, p.version)
+  ),
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = ROUTES.map((r) => r.template);
+
+function parseUri(uri: string): { segments: string[]; environment?: string } {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri} (expected ${RESOURCE_SCHEME}...)`);
+  }
+  const [path, query = ''] = uri.slice(RESOURCE_SCHEME.length).split('?', 2);
+  return {
+    segments: path.split('/').filter((segment) => segment.length > 0).map(decodeURIComponent),
+    environment: new URLSearchParams(query).get('environment') || undefined,
+  };
+}
+
+function matchRoute(segments: string[]): { route: ResourceRoute; params: Record<string, string> } | undefined {
+  for (const candidate of ROUTES) {
+    if (candidate.path.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = candidate.path.every((part, i) => {
+      if (part.startsWith('{') && part.endsWith('}')) {
+        params[part.slice(1, -1)] = segments[i];
+        return true;
+      }
+      return part === segments[i];
+    });
+    if (matches) return { route: candidate, params };
+  }
+  return undefined;
+}
+
+/**
+ * Fixed entry points for browsing; entities are reached through the templates
+ */
+export function listResources(environments: EnvironmentRegistry): Resource[] {
+  const config = environments.getConfig();
+  return [
+    {
+      uri: `${RESOURCE_SCHEME}environments`,
+      name: 'Environments',
+      description: 'Configured environments and their access modes',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      uri: `${RESOURCE_SCHEME}system`,
+      name: 'System information',
+      description: 'Hybris version, cluster and JVM information',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      uri: `${RESOURCE_SCHEME}cronjobs`,
+      name: 'Cron jobs',
+      description: 'All cron jobs with status, last run and triggers',
+      mimeType: JSON_MIME_TYPE,
+    },
+    {
+      uri: `${RESOURCE_SCHEME}catalog/${encodeURIComponent(config.catalogId!)}/${encodeURIComponent(config.catalogVersion!)}/categories`,
+      name: `Categories of ${config.catalogId}:${config.catalogVersion}`,
+      description: 'Category tree of the configured product catalog',
+      mimeType: JSON_MIME_TYPE,
+    },
+  ];
+}
+
+export async function readResource(
+  uri: string,
+  environments: EnvironmentRegistry
+): Promise<{ contents: { uri: string; mimeType: string; text: string }[] }> {
+  const { segments, environment } = parseUri(uri);
+  const client = environments.getClient(environment);
+
+  let data: unknown;
+  const fixed = segments.length === 1 ? segments[0] : undefined;
+  if (fixed === 'environments') {
+    data = await environments.summarize();
+  } else if (fixed === 'system') {
+    data = await client.getSystemInfo();
+  } else if (fixed === 'cronjobs') {
+    data = await client.getCronJobs();
+  } else {
+    const match = matchRoute(segments);
+    if (!match) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    data = await match.route.read(client, match.params);
+  }
+
+  return {
+    contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}